@@ -0,0 +1,210 @@
+// src/classifier.ts
+// Классификация изменений документа: упорядоченный список правил, первое
+// сработавшее правило определяет категорию. Модуль не зависит от vscode,
+// поэтому правила можно проверять на записанных событиях.
+import { Classification } from './types'
+
+export const CLASSIFICATION_INFO: Record<Classification, { label: string; color: string }> = {
+	manual: { label: 'Вручную', color: '#34d399' },
+	paste: { label: 'Вставка', color: '#fbbf24' },
+	ai: { label: 'ИИ', color: '#ff5c5c' },
+	format: { label: 'Форматирование', color: '#a78bfa' },
+	undo: { label: 'Отмена/повтор', color: '#94a3b8' },
+	bulk: { label: 'Массовые', color: '#f472b6' },
+}
+
+export const CLASSIFICATIONS = Object.keys(CLASSIFICATION_INFO) as Classification[]
+
+export function emptyClassificationStats(): Record<
+	Classification,
+	{ chars: number; count: number }
+> {
+	const stats = {} as Record<Classification, { chars: number; count: number }>
+	for (const cls of CLASSIFICATIONS) {
+		stats[cls] = { chars: 0, count: 0 }
+	}
+	return stats
+}
+
+// Дополняет статистику, сохранённую до появления новых категорий
+export function fillClassificationStats(
+	stats: Partial<Record<Classification, { chars: number; count: number }>>
+): Record<Classification, { chars: number; count: number }> {
+	for (const cls of CLASSIFICATIONS) {
+		if (!stats[cls]) stats[cls] = { chars: 0, count: 0 }
+	}
+	return stats as Record<Classification, { chars: number; count: number }>
+}
+
+// Одно изменение из TextDocumentChangeEvent вместе с контекстом события
+export interface ChangeEvent {
+	text: string
+	rangeLength: number
+	// Изменение затрагивает больше одной строки исходного текста
+	multiLineRange: boolean
+	// Количество изменений в событии (несколько курсоров, форматирование)
+	changeCount: number
+	// Сколько символов вставлено всеми изменениями события
+	eventChars: number
+	// Все изменения события вставляют одинаковый текст
+	sameTextInAllChanges: boolean
+	reason?: 'undo' | 'redo'
+	// Время с предыдущего изменения документа, мс
+	sinceLastChange: number
+	// Изменение пришло, пока документ сохранялся (format on save, code actions on save)
+	duringSave: boolean
+	// Содержимое буфера обмена; undefined — прочитать не удалось
+	clipboard?: string
+	// Слово, набранное вручную прямо перед изменением
+	typedWord: string
+	// Изменение задевает позицию единственного пустого курсора в документе
+	atCursor: boolean
+	// Время с последнего нажатия клавиши в документе (ввод или удаление
+	// одного символа), мс; Infinity — в документе ещё не печатали
+	sinceTyping: number
+}
+
+export interface ClassifierOptions {
+	bulkThresholdChars: number
+	pasteMinChars: number
+	aiMinChars: number
+	aiMaxGapMs: number
+	aiAcceptWindowMs: number
+	snippetPrefixMaxChars: number
+}
+
+export const DEFAULT_CLASSIFIER_OPTIONS: ClassifierOptions = {
+	bulkThresholdChars: 5000,
+	pasteMinChars: 100,
+	aiMinChars: 50,
+	aiMaxGapMs: 100,
+	aiAcceptWindowMs: 5000,
+	snippetPrefixMaxChars: 30,
+}
+
+export interface ClassificationRule {
+	id: string
+	classify(change: ChangeEvent, options: ClassifierOptions): Classification | undefined
+}
+
+function normalizeEol(s: string) {
+	return s.replace(/\r\n|\r/g, '\n')
+}
+
+export const undoRedoRule: ClassificationRule = {
+	id: 'undo-redo',
+	classify: change => (change.reason ? 'undo' : undefined),
+}
+
+export const formatOnSaveRule: ClassificationRule = {
+	id: 'format-on-save',
+	classify: change => (change.duringSave ? 'format' : undefined),
+}
+
+// Генерация файла агентом, scaffolding, огромная вставка — всё событие целиком
+export const bulkChangeRule: ClassificationRule = {
+	id: 'bulk-change',
+	classify: (change, options) =>
+		change.eventChars > options.bulkThresholdChars ? 'bulk' : undefined,
+}
+
+// Текст совпадает с буфером обмена — это вставка, в том числе в несколько курсоров
+export const clipboardPasteRule: ClassificationRule = {
+	id: 'clipboard-paste',
+	classify: change =>
+		change.clipboard &&
+		change.text.length > 1 &&
+		normalizeEol(change.text) === normalizeEol(change.clipboard)
+			? 'paste'
+			: undefined,
+}
+
+// Одинаковый ввод в нескольких местах — набор с несколькими курсорами
+export const multiCursorRule: ClassificationRule = {
+	id: 'multi-cursor',
+	classify: change =>
+		change.changeCount > 1 && change.sameTextInAllChanges ? 'manual' : undefined,
+}
+
+// Разные правки в нескольких местах за одно событие делают форматтеры и рефакторинги
+export const multiRangeEditRule: ClassificationRule = {
+	id: 'multi-range-edit',
+	classify: change => (change.changeCount > 1 ? 'format' : undefined),
+}
+
+// Сниппет или автодополнение заменяет только что набранный префикс
+export const snippetExpansionRule: ClassificationRule = {
+	id: 'snippet-expansion',
+	classify: (change, options) =>
+		change.typedWord.length > 0 &&
+		change.typedWord.length <= options.snippetPrefixMaxChars &&
+		change.rangeLength === change.typedWord.length &&
+		!change.multiLineRange
+			? 'manual'
+			: undefined,
+}
+
+// Принятое inline-предложение: крупная вставка одним изменением без совпадения
+// с буфером, прямо в позицию курсора, вскоре после набора. Автоотступ (одни
+// пробелы) и правки code actions в другом месте файла сюда не попадают
+export const inlineCompletionRule: ClassificationRule = {
+	id: 'inline-completion',
+	classify: (change, options) =>
+		change.changeCount === 1 &&
+		!change.multiLineRange &&
+		change.clipboard !== undefined &&
+		change.atCursor &&
+		change.sinceTyping <= options.aiAcceptWindowMs &&
+		change.text.trim().length > 0 &&
+		change.text.length - change.rangeLength >= options.aiMinChars
+			? 'ai'
+			: undefined,
+}
+
+// Серия крупных вставок быстрее, чем может печатать человек (агенты, потоковые правки).
+// Перевод строки с автоотступом после быстрого набора — не она
+export const burstInsertRule: ClassificationRule = {
+	id: 'burst-insert',
+	classify: (change, options) =>
+		change.text.length >= options.aiMinChars &&
+		change.sinceLastChange <= options.aiMaxGapMs &&
+		change.text.trim().length > 0
+			? 'ai'
+			: undefined,
+}
+
+// Буфер обмена недоступен — остаётся прежняя эвристика по размеру вставки
+export const largeInsertPasteRule: ClassificationRule = {
+	id: 'large-insert-paste',
+	classify: (change, options) =>
+		change.clipboard === undefined &&
+		change.text.length >= options.pasteMinChars &&
+		change.rangeLength === 0
+			? 'paste'
+			: undefined,
+}
+
+export const DEFAULT_RULES: ClassificationRule[] = [
+	undoRedoRule,
+	formatOnSaveRule,
+	bulkChangeRule,
+	clipboardPasteRule,
+	multiCursorRule,
+	multiRangeEditRule,
+	snippetExpansionRule,
+	burstInsertRule,
+	inlineCompletionRule,
+	largeInsertPasteRule,
+]
+
+export function classifyChange(
+	change: ChangeEvent,
+	options: ClassifierOptions = DEFAULT_CLASSIFIER_OPTIONS,
+	rules: ClassificationRule[] = DEFAULT_RULES
+): Classification {
+	for (const rule of rules) {
+		const cls = rule.classify(change, options)
+		if (cls) return cls
+	}
+	return 'manual'
+}
@@ -0,0 +1,109 @@
+// src/config.ts
+import * as vscode from 'vscode'
+
+import { ClassifierOptions, DEFAULT_CLASSIFIER_OPTIONS } from './classifier'
+import { FocusOptions } from './focus'
+import { GoalTargets } from './goals'
+import { HistoryOptions } from './history'
+
+export const CONFIG_SECTION = 'codingTracker'
+
+export interface TrackerConfig {
+	idleTimeoutMinutes: number
+	dayStartHour: number
+	saveDebounceMs: number
+	// Сколько дней хранить дневную статистику, сессии, массовые изменения, коммиты и отрезки фокуса
+	retentionDays: number
+	// Файлы без символов и с меньшим временем удаляются при очистке
+	emptyFilePurgeSeconds: number
+	// Через сколько дней история языков и файлов сворачивается в недели и в месяцы
+	history: HistoryOptions
+	heatmapDays: number
+	classifier: ClassifierOptions
+	snippets: {
+		enabled: boolean
+		maxEntries: number
+		maxChars: number
+	}
+	goals: {
+		daily: GoalTargets
+		weekly: GoalTargets
+		notifications: boolean
+	}
+	focus: FocusOptions
+	// Напоминание о перерыве после стольких минут работы без простоя; 0 — выключено
+	breakReminderMinutes: number
+}
+
+function clamp(value: number, min: number, max = Infinity) {
+	return Math.min(max, Math.max(min, value))
+}
+
+// Недели сворачиваются в месяцы не раньше, чем дни в недели
+function readHistoryOptions(cfg: vscode.WorkspaceConfiguration): HistoryOptions {
+	const dailyDays = clamp(Math.floor(cfg.get<number>('history.dailyDays', 90)), 7)
+	const weeklyDays = clamp(Math.floor(cfg.get<number>('history.weeklyDays', 365)), dailyDays)
+	return { dailyDays, weeklyDays }
+}
+
+export function readConfig(): TrackerConfig {
+	const cfg = vscode.workspace.getConfiguration(CONFIG_SECTION)
+	const defaults = DEFAULT_CLASSIFIER_OPTIONS
+	return {
+		idleTimeoutMinutes: Math.max(1, cfg.get<number>('idleTimeoutMinutes', 5)),
+		dayStartHour: clamp(Math.floor(cfg.get<number>('dayStartHour', 0)), 0, 23),
+		saveDebounceMs: clamp(cfg.get<number>('saveDebounceMs', 5000), 500, 60000),
+		retentionDays: clamp(Math.floor(cfg.get<number>('retentionDays', 90)), 1),
+		emptyFilePurgeSeconds: Math.max(0, cfg.get<number>('emptyFilePurgeSeconds', 60)),
+		history: readHistoryOptions(cfg),
+		heatmapDays: clamp(Math.floor(cfg.get<number>('heatmapDays', 90)), 7, 366),
+		classifier: {
+			bulkThresholdChars: Math.max(
+				1,
+				cfg.get<number>('bulkThresholdChars', defaults.bulkThresholdChars)
+			),
+			pasteMinChars: Math.max(
+				2,
+				cfg.get<number>('classification.pasteMinChars', defaults.pasteMinChars)
+			),
+			aiMinChars: Math.max(2, cfg.get<number>('classification.aiMinChars', defaults.aiMinChars)),
+			aiMaxGapMs: Math.max(0, cfg.get<number>('classification.aiMaxGapMs', defaults.aiMaxGapMs)),
+			aiAcceptWindowMs: Math.max(
+				0,
+				cfg.get<number>('classification.aiAcceptWindowMs', defaults.aiAcceptWindowMs)
+			),
+			snippetPrefixMaxChars: Math.max(
+				0,
+				cfg.get<number>(
+					'classification.snippetPrefixMaxChars',
+					defaults.snippetPrefixMaxChars
+				)
+			),
+		},
+		snippets: {
+			enabled: cfg.get<boolean>('snippets.enabled', false),
+			maxEntries: Math.max(1, cfg.get<number>('snippets.maxEntries', 500)),
+			maxChars: Math.max(1, cfg.get<number>('snippets.maxChars', 2000)),
+		},
+		goals: {
+			daily: {
+				minutes: Math.max(0, cfg.get<number>('goals.dailyMinutes', 60)),
+				manualChars: Math.max(0, cfg.get<number>('goals.dailyManualChars', 0)),
+				maxAiPercent: clamp(cfg.get<number>('goals.dailyMaxAiPercent', 100), 0, 100),
+			},
+			weekly: {
+				minutes: Math.max(0, cfg.get<number>('goals.weeklyMinutes', 0)),
+				manualChars: Math.max(0, cfg.get<number>('goals.weeklyManualChars', 0)),
+				maxAiPercent: clamp(cfg.get<number>('goals.weeklyMaxAiPercent', 100), 0, 100),
+			},
+			notifications: cfg.get<boolean>('goals.notifications', true),
+		},
+		focus: {
+			workMinutes: clamp(cfg.get<number>('focus.workMinutes', 25), 1, 240),
+			breakMinutes: clamp(cfg.get<number>('focus.breakMinutes', 5), 1, 120),
+			longBreakMinutes: clamp(cfg.get<number>('focus.longBreakMinutes', 15), 1, 120),
+			cyclesBeforeLongBreak: Math.max(0, Math.floor(cfg.get<number>('focus.cyclesBeforeLongBreak', 4))),
+		},
+		breakReminderMinutes: Math.max(0, cfg.get<number>('breakReminderMinutes', 60)),
+	}
+}
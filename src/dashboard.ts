@@ -0,0 +1,382 @@
+// src/dashboard.ts
+// Разметка и стили панели мониторинга. Сценарий панели собирается отдельно из
+// src/webview в out/webview, Chart.js берётся из зависимостей расширения —
+// панель не обращается к сети
+import * as vscode from 'vscode'
+
+function chartJsDir(extUri: vscode.Uri) {
+	return vscode.Uri.joinPath(extUri, 'node_modules', 'chart.js', 'dist')
+}
+
+function webviewDir(extUri: vscode.Uri) {
+	return vscode.Uri.joinPath(extUri, 'out', 'webview')
+}
+
+// Папки, из которых панели разрешено загружать файлы
+export function dashboardResourceRoots(extUri: vscode.Uri): vscode.Uri[] {
+	return [chartJsDir(extUri), webviewDir(extUri)]
+}
+
+export function getDashboardHtml(webview: vscode.Webview, extUri: vscode.Uri, nonce: string): string {
+	const chartJsUri = webview.asWebviewUri(vscode.Uri.joinPath(chartJsDir(extUri), 'chart.umd.min.js'))
+	const mainUri = webview.asWebviewUri(vscode.Uri.joinPath(webviewDir(extUri), 'webview', 'main.js'))
+
+	return `<!doctype html>
+<html lang="ru">
+<head>
+<meta charset="utf-8" />
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} data:; script-src 'nonce-${nonce}' ${webview.cspSource}; style-src 'unsafe-inline';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>Панель мониторинга Coding Tracker</title>
+<style>
+ :root {
+  --bg: #0f1724;
+  --card: #1a2332;
+  --border: #2d3748;
+  --text: #e2e8f0;
+  --text-muted: #94a3b8;
+  --accent: #60a5fa;
+  --ai: #ff5c5c;
+  --paste: #fbbf24;
+  --manual: #34d399;
+ }
+ body { 
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; 
+  margin: 0; padding: 16px; 
+  color: var(--text); background: var(--bg); 
+  line-height: 1.5;
+ }
+ h1 { font-size: 1.5rem; margin: 0 0 12px; color: #fff; display: flex; align-items: center; gap: 8px; }
+ h2 { font-size: 1.1rem; margin: 16px 0 8px; color: #fff; font-weight: 600; }
+ .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(280px, 1fr)); gap: 16px; margin-bottom: 16px; }
+ .chart-grid { display: grid; grid-template-columns: 1.2fr 1fr; gap: 16px; margin-bottom: 16px; }
+
+ .card { 
+  background: var(--card); 
+  border-radius: 12px; 
+  padding: 16px; 
+  border: 1px solid var(--border); 
+  box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+  transition: transform 0.2s, box-shadow 0.2s;
+ }
+ .card:hover { box-shadow: 0 8px 20px rgba(0,0,0,0.4); }
+ .controls { display: flex; gap: 8px; margin-bottom: 16px; flex-wrap: wrap; }
+ button { 
+  padding: 8px 12px; border-radius: 8px; background: #1e293b; color: #cbd5e1; 
+  border: 1px solid var(--border); cursor: pointer; font-size: 0.9rem; 
+  transition: all 0.2s;
+ }
+ button:hover { background: #334155; transform: translateY(-1px); }
+ .stat { font-size: 1.8rem; font-weight: 700; margin: 4px 0; color: var(--accent); }
+ .small { font-size: 0.85rem; color: var(--text-muted); }
+ table { width:100%; border-collapse: collapse; font-size: 0.9rem; }
+ th, td { padding: 6px 8px; text-align: left; }
+ th { color: var(--text-muted); font-weight: 600; font-size: 0.8rem; text-transform: uppercase; letter-spacing: 0.5px; }
+ tr:hover td { background: rgba(255,255,255,0.03); }
+ .lang-tag { font-weight: 700; color: #e0f2fe; }
+ .chart-container { position: relative; height: 180px; margin: 12px 0; }
+ .chart-fallback { height: 100%; overflow-y: auto; }
+ .heatmap { display: grid; grid-template-columns: repeat(24, 1fr); gap: 2px; margin: 12px 0; }
+ .hour { width: 100%; height: 20px; background: #334155; border-radius: 2px; }
+ .hour.active { background: #1e3a8a; }
+ .hour.hot { background: #3b82f6; }
+ .hour.very-hot { background: #93c5fd; }
+ .hour-row { display: flex; align-items: center; gap: 8px; }
+ .hour-row .heatmap { flex: 1; margin: 1px 0; }
+ .hour-label { width: 24px; font-size: 0.75rem; color: var(--text-muted); }
+ .hour-scale { display: grid; grid-template-columns: repeat(24, 1fr); font-size: 0.7rem; color: var(--text-muted); flex: 1; }
+ .top-item { display: flex; justify-content: space-between; padding: 4px 0; font-size: 0.9rem; align-items: center; }
+ .progress { height: 6px; background: var(--border); border-radius: 3px; overflow: hidden; margin-top: 4px; }
+ .progress-bar { height: 100%; border-radius: 3px; }
+ .legend-item { display: flex; justify-content: space-between; padding: 4px 0; font-size: 0.9rem; align-items: center; }
+ .legend-item span:first-child { display: flex; align-items: center; }
+ .color-box { width: 10px; height: 10px; border-radius: 2px; margin-right: 6px; }
+ 
+ .github-heatmap { 
+  display: grid; 
+  grid-template-columns: repeat(13, 1fr);
+  gap: 2px; 
+  margin: 12px 0;
+ }
+ .heatmap-day { 
+  width: 30px; 
+  height: 30px; 
+  border-radius: 2px;
+  background: #ebedf0;
+ }
+ .heatmap-day-0 { background: #ebedf0; }
+ .heatmap-day-1 { background: #9be9a8; }
+ .heatmap-day-2 { background: #40c463; }
+ .heatmap-day-3 { background: #30a14e; }
+ .heatmap-day-4 { background: #216e39; }
+ .daily-table { width: 100%; font-size: 0.8rem; }
+ .daily-table th { padding: 4px 8px; }
+ .daily-table td { padding: 4px 8px; border-top: 1px solid var(--border); }
+ .classification-bar { display: flex; height: 4px; border-radius: 2px; overflow: hidden; margin-top: 2px; }
+ .classification-manual { background: var(--manual); }
+ .classification-paste { background: var(--paste); }
+ .classification-ai { background: var(--ai); }
+ 
+ @keyframes fadeIn { from { opacity: 0; transform: translateY(10px); } to { opacity: 1; transform: none; } }
+ .fade-in { animation: fadeIn 0.4s ease-out; }
+
+ .timeline { position: relative; height: 24px; background: #334155; border-radius: 4px; margin: 12px 0 2px; }
+ .timeline-block { position: absolute; top: 0; bottom: 0; min-width: 3px; background: var(--accent); border-radius: 3px; cursor: pointer; }
+ .timeline-block.selected { background: var(--manual); }
+ .timeline-scale { display: flex; justify-content: space-between; font-size: 0.75rem; color: var(--text-muted); margin-bottom: 8px; }
+ .session-row { cursor: pointer; }
+ .session-row.selected td { background: rgba(96,165,250,0.12); }
+ input { padding: 6px 8px; border-radius: 8px; background: #1e293b; color: #cbd5e1; border: 1px solid var(--border); }
+ details.snippet { border-top: 1px solid var(--border); padding: 6px 0; }
+ details.snippet summary { cursor: pointer; display: flex; gap: 8px; align-items: center; font-size: 0.9rem; }
+ details.snippet pre { background: #0b1220; border-radius: 6px; padding: 8px; overflow-x: auto; font-size: 0.8rem; max-height: 300px; }
+ .badge { padding: 1px 6px; border-radius: 4px; font-size: 0.75rem; color: #0f1724; font-weight: 600; }
+ .link { cursor: pointer; }
+ .link:hover { color: var(--accent); text-decoration: underline; }
+ [data-day], [data-language] { cursor: pointer; }
+ .delta-up { color: var(--manual); }
+ .delta-down { color: var(--ai); }
+ select { padding: 6px 8px; border-radius: 8px; background: #1e293b; color: #cbd5e1; border: 1px solid var(--border); }
+</style>
+<script nonce="${nonce}" src="${chartJsUri}"></script>
+</head>
+<body>
+ <h1>Панель мониторинга Coding Tracker</h1>
+ <div class="controls">
+  <button id="refresh">Обновить</button>
+  <select id="projectFilter" title="Проект"><option value="">Все проекты</option></select>
+  <select id="languageFilter" title="Язык"><option value="">Все языки</option></select>
+  <span class="small" id="languageNote"></span>
+ </div>
+
+ <div class="grid">
+  <div class="card fade-in">
+   <h2>Отслеживание времени</h2>
+   <div id="timeWindows">Загрузка…</div>
+  </div>
+  <div class="card fade-in">
+   <h2>Статистика сессии</h2>
+   <div id="sessionInfo">—</div>
+  </div>
+ </div>
+
+ <div class="card fade-in" style="margin-bottom: 16px;">
+  <h2>Период</h2>
+  <div class="controls">
+   <input id="periodFrom" type="date" title="С даты" />
+   <input id="periodTo" type="date" title="По дату" />
+   <label class="small"><input id="periodCompare" type="checkbox" /> Сравнить с предыдущим периодом</label>
+   <button id="periodReset">Последние 30 дней</button>
+  </div>
+  <table class="daily-table">
+   <thead><tr id="periodHead"></tr></thead>
+   <tbody id="periodBody"></tbody>
+  </table>
+ </div>
+
+ <div class="card fade-in" style="margin-bottom: 16px;">
+  <h2>Языки за период <span class="small" id="trendStep"></span></h2>
+  <div class="controls">
+   <select id="trendMetric" title="Показатель">
+    <option value="seconds">Время</option>
+    <option value="chars">Символы</option>
+   </select>
+   <select id="trendMode" title="Вид графика">
+    <option value="stacked">С накоплением</option>
+    <option value="lines">Линии</option>
+   </select>
+  </div>
+  <div class="small" id="trendNote"></div>
+  <div class="chart-container" style="height: 240px;">
+   <canvas id="trendChart"></canvas>
+  </div>
+  <h3>Самые активные файлы</h3>
+  <div class="small">Пик — день, неделя или месяц, когда с файлом работали дольше всего.</div>
+  <table class="daily-table" style="margin-top: 8px;">
+   <thead><tr><th>Файл</th><th>Язык</th><th>Время</th><th>Символы</th><th>Пик</th></tr></thead>
+   <tbody id="trendFiles"></tbody>
+  </table>
+ </div>
+
+ <div class="grid">
+  <div class="card fade-in">
+   <h2>Серии активности</h2>
+   <div id="streakInfo">—</div>
+  </div>
+  <div class="card fade-in">
+   <h2>Общие изменения</h2>
+   <div id="totalEditsInfo">—</div>
+  </div>
+ </div>
+
+ <!-- Новая секция: Heatmap активности -->
+ <div style='margin-bottom: 16px' class="card fade-in">
+  <h2>Heatmap активности (<span class="heatmapDays">90</span> дней)</h2>
+  <div id="githubHeatmap" class="github-heatmap"></div>
+  <div class="small" style="margin-top: 8px; display: flex; align-items: center; gap: 8px;">
+   <span>Меньше</span>
+   <div class="heatmap-day heatmap-day-0"></div>
+   <div class="heatmap-day heatmap-day-1"></div>
+   <div class="heatmap-day heatmap-day-2"></div>
+   <div class="heatmap-day heatmap-day-3"></div>
+   <div class="heatmap-day heatmap-day-4"></div>
+   <span>Больше</span>
+  </div>
+ </div>
+
+ <div style='margin-bottom: 16px' class="card fade-in">
+  <h2>Активность по часам (<span class="heatmapDays">90</span> дней)</h2>
+  <div id="hourHeatmap"></div>
+  <div class="small" id="hourHeatmapSummary" style="margin-top: 8px;"></div>
+ </div>
+
+ <!-- Новая секция: Статистика по дням -->
+ <div class="card fade-in">
+  <h2>Статистика по дням <span class="small" id="dailyStatsRange"></span></h2>
+  <div class="small">Щёлкните день здесь или в тепловой карте, чтобы увидеть его разбивку по файлам и языкам.</div>
+  <table class="daily-table" id="dailyStatsTable">
+   <thead>
+    <tr id="dailyStatsHead"></tr>
+   </thead>
+   <tbody id="dailyStatsBody"></tbody>
+  </table>
+ </div>
+
+ <div class="card fade-in" id="dayCard" style="margin-top: 16px; display: none;">
+  <h2>День <span id="dayTitle"></span></h2>
+  <div id="dayDetails"></div>
+  <button id="dayClose" style="margin-top: 8px;">Закрыть</button>
+ </div>
+
+ <div class="card fade-in" style="margin-top: 16px;margin-bottom: 16px;">
+  <h2>Сессии</h2>
+  <select id="sessionDay"></select>
+  <div id="sessionTimeline"></div>
+  <table class="daily-table">
+   <thead>
+    <tr>
+     <th>Время</th>
+     <th>Длительность</th>
+     <th>Рабочая область</th>
+     <th>Файлы</th>
+     <th>Символы</th>
+    </tr>
+   </thead>
+   <tbody id="sessionList"></tbody>
+  </table>
+  <div id="sessionDetails"></div>
+ </div>
+
+ <div class="card fade-in" style="margin-bottom: 16px;">
+  <h2>Фокус</h2>
+  <div class="small">Отрезки режима фокуса (команда «CodeTime: Focus Mode»). Засчитывается только активное время в редакторе.</div>
+  <div id="focusSummary" style="margin: 8px 0;"></div>
+  <table class="daily-table">
+   <thead><tr><th>Начало</th><th>Активное время</th><th>План</th><th>Итог</th></tr></thead>
+   <tbody id="focusList"></tbody>
+  </table>
+ </div>
+
+ <div class="card fade-in" style="margin-bottom: 16px;">
+  <h2>История фрагментов</h2>
+  <div class="controls">
+   <input id="snippetSearch" placeholder="Поиск по тексту" />
+   <select id="snippetCls">
+    <option value="">Все типы</option>
+    <option value="paste">Вставка</option>
+    <option value="ai">ИИ</option>
+   </select>
+   <select id="snippetLang"><option value="">Все языки</option></select>
+   <input id="snippetFile" placeholder="Файл" />
+   <input id="snippetFrom" type="date" title="С даты" />
+   <input id="snippetTo" type="date" title="По дату" />
+  </div>
+  <div class="small" id="snippetCount"></div>
+  <div id="snippetList"></div>
+ </div>
+
+ <div class="card fade-in" style="margin-bottom: 16px;">
+  <h2>Массовые изменения</h2>
+  <div class="small">Изменения, вставившие за раз больше символов, чем задано в codingTracker.bulkThresholdChars: генерация файлов, scaffolding, большие вставки.</div>
+  <table class="daily-table" style="margin-top: 8px;">
+   <thead><tr><th>Время</th><th>Файл</th><th>Язык</th><th>Символы</th><th>Строки</th><th>Источник</th></tr></thead>
+   <tbody id="bulkList"></tbody>
+  </table>
+ </div>
+
+ <div class="card fade-in" style="margin-bottom: 16px;">
+  <h2>Ветки</h2>
+  <table class="daily-table">
+   <thead><tr><th>Репозиторий</th><th>Ветка</th><th>Время</th><th>Символы</th><th>Коммиты</th><th>Последняя активность</th></tr></thead>
+   <tbody id="branchList"></tbody>
+  </table>
+  <h3>Коммиты</h3>
+  <div class="small">Время и символы — работа в репозитории с предыдущего коммита; в скобках — сколько прошло по часам.</div>
+  <table class="daily-table" style="margin-top: 8px;">
+   <thead><tr><th>Время</th><th>Репозиторий</th><th>Ветка</th><th>Коммит</th><th>Работа</th><th>Символы</th></tr></thead>
+   <tbody id="commitList"></tbody>
+  </table>
+ </div>
+
+ <h2>Разбивка по вкладу</h2>
+ <div class="chart-grid">
+  <div class="card fade-in">
+   <h3>Классификация (Символы)</h3>
+   <div id="classificationChart" class="chart-container">
+    <canvas id="classChart"></canvas>
+   </div>
+  </div>
+  <div class="card fade-in" id="classificationLegend">
+   <h3>Сводка</h3>
+   <div id="classSummary">Загрузка...</div>
+  </div>
+ </div>
+
+ <h2>Доминирование языков</h2>
+ <div class="chart-grid">
+  <div class="card fade-in">
+   <h3>Топ языков (Символы)</h3>
+   <div id="langChart" class="chart-container">
+    <canvas id="langPie"></canvas>
+   </div>
+  </div>
+  <div class="card fade-in" id="languageLegend">
+   <h3>Топ-5 языков</h3>
+   <div id="langSummary">Загрузка...</div>
+  </div>
+ </div>
+
+ <div class="card fade-in" style="margin-top: 16px;margin-bottom: 16px;">
+  <h2>Активность по дням недели</h2>
+  <div id="weekdayChart" class="chart-container">
+   <canvas id="weekDayChart"></canvas>
+  </div>
+ </div>
+
+ <div class="grid">
+  <div class="card fade-in">
+   <h2>Топ-5 файлов</h2>
+   <div id="topFiles">—</div>
+  </div>
+  <div class="card fade-in">
+   <h2>Топ-5 папок</h2>
+   <div id="topFolders">—</div>
+   </div>
+  <div class="card fade-in">
+   <h2>Проекты</h2>
+   <div id="projectList">—</div>
+  </div>
+ </div>
+
+ <div class="card fade-in" style="margin-top: 16px;">
+  <h2>Языки (Подробная таблица)</h2>
+  <table id="langTable">
+   <thead><tr id="langTableHead"></tr></thead>
+   <tbody></tbody>
+  </table>
+ </div>
+
+<script type="module" nonce="${nonce}" src="${mainUri}"></script>
+</body>
+</html>`
+}
@@ -0,0 +1,114 @@
+// src/days.ts
+// Модель дня: локальный часовой пояс, день начинается в dayStartHour (0–23).
+// Ключ дня — строка ГГГГ-ММ-ДД с датой начала этого дня.
+
+function pad(n: number) {
+	return n < 10 ? '0' + n : String(n)
+}
+
+function parseKey(key: string) {
+	const [y, m, d] = key.split('-').map(Number)
+	return { y, m, d }
+}
+
+function formatDate(d: Date) {
+	return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+}
+
+export function dayKey(ts: number, dayStartHour = 0): string {
+	const d = new Date(ts)
+	if (d.getHours() < dayStartHour) d.setDate(d.getDate() - 1)
+	return formatDate(d)
+}
+
+export function dayStart(key: string, dayStartHour = 0): number {
+	const { y, m, d } = parseKey(key)
+	return new Date(y, m - 1, d, dayStartHour).getTime()
+}
+
+export function startOfDay(ts: number, dayStartHour = 0): number {
+	return dayStart(dayKey(ts, dayStartHour), dayStartHour)
+}
+
+export function startOfMonth(ts: number, dayStartHour = 0): number {
+	const { y, m } = parseKey(dayKey(ts, dayStartHour))
+	return new Date(y, m - 1, 1, dayStartHour).getTime()
+}
+
+export function shiftDayKey(key: string, days: number): string {
+	const { y, m, d } = parseKey(key)
+	return formatDate(new Date(y, m - 1, d + days))
+}
+
+// День недели ключа: 0 — воскресенье, как у Date.getDay()
+export function weekdayOfKey(key: string): number {
+	const { y, m, d } = parseKey(key)
+	return new Date(y, m - 1, d).getDay()
+}
+
+// Ключ понедельника недели, в которую попадает день
+export function weekStartKey(key: string): string {
+	return shiftDayKey(key, -((weekdayOfKey(key) + 6) % 7))
+}
+
+// Ключ первого дня месяца, в который попадает день
+export function monthStartKey(key: string): string {
+	return key.slice(0, 8) + '01'
+}
+
+// Число дней от from до to включительно
+export function dayCount(from: string, to: string): number {
+	const a = parseKey(from)
+	const b = parseKey(to)
+	return Math.round((Date.UTC(b.y, b.m - 1, b.d) - Date.UTC(a.y, a.m - 1, a.d)) / 86400000) + 1
+}
+
+export function isDayKey(value: string): boolean {
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+	const { y, m, d } = parseKey(value)
+	const date = new Date(y, m - 1, d)
+	return date.getMonth() === m - 1 && date.getDate() === d
+}
+
+// Делит интервал [from, to) на куски по границам дней
+export function splitByDay(
+	from: number,
+	to: number,
+	dayStartHour = 0
+): { key: string; seconds: number }[] {
+	const parts: { key: string; seconds: number }[] = []
+	let cursor = from
+	while (cursor < to) {
+		const key = dayKey(cursor, dayStartHour)
+		const end = Math.min(to, dayStart(shiftDayKey(key, 1), dayStartHour))
+		parts.push({ key, seconds: (end - cursor) / 1000 })
+		cursor = end
+	}
+	return parts
+}
+
+// Начало часа hour (0–23 по часам) внутри дня key: часы до dayStartHour
+// относятся к следующей календарной дате
+export function hourStart(key: string, hour: number, dayStartHour = 0): number {
+	const { y, m, d } = parseKey(key)
+	return new Date(y, m - 1, d + (hour < dayStartHour ? 1 : 0), hour).getTime()
+}
+
+// Делит интервал [from, to) на куски по границам часов
+export function splitByHour(
+	from: number,
+	to: number,
+	dayStartHour = 0
+): { key: string; hour: number; seconds: number }[] {
+	const parts: { key: string; hour: number; seconds: number }[] = []
+	let cursor = from
+	while (cursor < to) {
+		const d = new Date(cursor)
+		const hour = d.getHours()
+		d.setHours(hour + 1, 0, 0, 0)
+		const end = Math.min(to, d.getTime())
+		parts.push({ key: dayKey(cursor, dayStartHour), hour, seconds: (end - cursor) / 1000 })
+		cursor = end
+	}
+	return parts
+}
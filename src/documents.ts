@@ -0,0 +1,74 @@
+// src/documents.ts
+// Какой файл стоит за документом или редактором. Учитываются файлы на диске,
+// файлы удалённых сред (SSH, WSL, контейнеры), безымянные документы, ячейки
+// блокнотов — они относятся к файлу блокнота — и файлы в пользовательских
+// редакторах. Окна вывода, git diff, настройки и прочие виртуальные документы
+// файлами не считаются
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+export interface TrackedDocument {
+	// Ключ store.files: путь для файлов на диске, строка URI для остальных
+	key: string
+	// URI файла; у ячейки блокнота — URI блокнота
+	uri: vscode.Uri
+	// Язык файла: у блокнота — его тип (jupyter-notebook), у пользовательского
+	// редактора — расширение файла. Время и ввод ячейки идут языку её документа
+	language: string
+}
+
+const REMOTE_SCHEME = 'vscode-remote'
+const CELL_SCHEME = 'vscode-notebook-cell'
+
+// Ключи не локальных файлов — строки URI («untitled:Untitled-1»,
+// «vscode-remote://wsl+ubuntu/home/…»). Пути Windows («C:\…») сюда не попадают
+const URI_KEY = /^(untitled:|[a-z][\w+.-]+:\/\/)/i
+
+function fromUri(uri: vscode.Uri, language: string): TrackedDocument | undefined {
+	switch (uri.scheme) {
+		case 'file':
+			return { key: uri.fsPath, uri, language }
+		case REMOTE_SCHEME:
+		case 'untitled':
+			return { key: uri.toString(), uri, language }
+		default:
+			return undefined
+	}
+}
+
+// URI ячейки повторяет путь блокнота, а номер ячейки хранится во fragment
+function notebookOf(cell: vscode.Uri): vscode.NotebookDocument | undefined {
+	return vscode.workspace.notebookDocuments.find(
+		nb => nb.uri.path === cell.path && nb.uri.authority === cell.authority
+	)
+}
+
+export function resolveDocument(doc: vscode.TextDocument): TrackedDocument | undefined {
+	if (doc.uri.scheme === CELL_SCHEME) {
+		const notebook = notebookOf(doc.uri)
+		return notebook && fromUri(notebook.uri, notebook.notebookType)
+	}
+	return fromUri(doc.uri, doc.languageId || 'unknown')
+}
+
+// Пользовательский редактор (изображения, диаграммы) открывает файл без
+// текстового документа, поэтому язык определяем по расширению
+export function resolveCustomEditor(uri: vscode.Uri): TrackedDocument | undefined {
+	return fromUri(uri, path.posix.extname(uri.path).slice(1).toLowerCase() || 'binary')
+}
+
+// Обратное преобразование ключа store.files в URI, например чтобы открыть файл
+export function uriFromKey(key: string): vscode.Uri {
+	return URI_KEY.test(key) ? vscode.Uri.parse(key) : vscode.Uri.file(key)
+}
+
+// Ключ, который могла записать только старая версия: окна вывода и безымянные
+// документы попадали в статистику под относительным «путём»
+export function isTrackedKey(key: string): boolean {
+	return URI_KEY.test(key) || path.isAbsolute(key)
+}
+
+// Имя файла для списков: у безымянного документа — его заголовок
+export function displayName(key: string): string {
+	return URI_KEY.test(key) ? path.posix.basename(uriFromKey(key).path) : path.basename(key)
+}
@@ -0,0 +1,372 @@
+// src/exchange.ts
+// Выгрузка и загрузка данных: JSON без потерь, который можно импортировать
+// обратно, и CSV-таблицы для электронных таблиц. Модуль не зависит от vscode
+import { CLASSIFICATIONS } from './classifier'
+import { dayStart, shiftDayKey } from './days'
+import { bucketContains, bucketEnd, emptyBucket, mergeBucket } from './history'
+import { applyDelta, diffValue } from './merge'
+import { StoredData } from './storage'
+import {
+	DailyStat,
+	FileStat,
+	HistoryBucket,
+	ImportedTotals,
+	LanguageStat,
+	PeriodFile,
+	PeriodLanguage,
+	ProjectStat,
+} from './types'
+
+export const EXPORT_FORMAT = 'codingTracker.export'
+export const EXPORT_VERSION = 1
+
+export interface ExportFile {
+	format: typeof EXPORT_FORMAT
+	version: number
+	exportId: string
+	// Установка VS Code, на которой сделана выгрузка (vscode.env.machineId)
+	source: string
+	exportedAt: number
+	// Период выгрузки; у полной копии отсутствует. Итоги за всё время по файлам,
+	// языкам и веткам нельзя разрезать по дням, поэтому они есть только в полной копии.
+	// Из истории в выгрузку за период попадают корзины, целиком лежащие в нём
+	range?: { from: string; to: string }
+	data: StoredData
+}
+
+export interface ImportResult {
+	days: number
+	records: number
+	skipped: number
+}
+
+function copy<T>(value: T): T {
+	return JSON.parse(JSON.stringify(value))
+}
+
+export function buildExport(
+	data: StoredData,
+	options: {
+		exportId: string
+		source: string
+		range?: { from: string; to: string }
+		dayStartHour: number
+	}
+): ExportFile {
+	const { range } = options
+	const base = {
+		format: EXPORT_FORMAT,
+		version: EXPORT_VERSION,
+		exportId: options.exportId,
+		source: options.source,
+		exportedAt: Date.now(),
+	} as const
+	if (!range) return { ...base, data: copy(data) }
+
+	const fromTs = dayStart(range.from, options.dayStartHour)
+	const toTs = dayStart(shiftDayKey(range.to, 1), options.dayStartHour)
+	const inRange = (key: string) => key >= range.from && key <= range.to
+	const tsInRange = (ts: number) => ts >= fromTs && ts < toTs
+	const pickDays = (days: Record<string, DailyStat>) =>
+		Object.fromEntries(Object.entries(days).filter(([key]) => inRange(key)))
+
+	const { store } = data
+	const projects: Record<string, ProjectStat> = {}
+	for (const [id, project] of Object.entries(store.projects || {})) {
+		projects[id] = { ...project, dailyStats: pickDays(project.dailyStats) }
+	}
+	return {
+		...base,
+		range,
+		data: copy({
+			store: {
+				files: {},
+				languages: {},
+				lastUpdate: store.lastUpdate,
+				dayModel: store.dayModel,
+				dailyStats: pickDays(store.dailyStats),
+				projects,
+				bulkChanges: (store.bulkChanges || []).filter(b => tsInRange(b.timestamp)),
+				focusSessions: (store.focusSessions || []).filter(f => tsInRange(f.start)),
+				history: Object.fromEntries(
+					Object.entries(store.history || {}).filter(
+						([, bucket]) => inRange(bucket.start) && inRange(bucketEnd(bucket))
+					)
+				),
+				git: store.git && {
+					branches: {},
+					repos: {},
+					commits: store.git.commits.filter(c => tsInRange(c.timestamp)),
+				},
+			},
+			sessions: data.sessions.filter(s => tsInRange(s.start)),
+			snippets: data.snippets.filter(s => tsInRange(s.timestamp)),
+		}),
+	}
+}
+
+export function parseExport(text: string): ExportFile {
+	let file: ExportFile
+	try {
+		file = JSON.parse(text)
+	} catch {
+		throw new Error('файл не является корректным JSON')
+	}
+	if (file?.format !== EXPORT_FORMAT || !file.data?.store?.dailyStats) {
+		throw new Error('файл не является выгрузкой Coding Tracker')
+	}
+	if (file.version > EXPORT_VERSION) {
+		throw new Error('выгрузка сделана более новой версией расширения')
+	}
+	return file
+}
+
+function emptyImportedTotals(): ImportedTotals {
+	return { files: {}, languages: {}, dailyStats: {}, projectDays: {}, branches: {}, history: {} }
+}
+
+// Корзины, которые другая установка свернула после прошлого импорта: их итоги
+// до сих пор лежат в импортированных днях и неделях. Эти корзины помельче
+// становятся основой свёрнутой, чтобы добавилась только разница
+function foldImportedHistory(
+	imported: Record<string, HistoryBucket>,
+	incoming: Record<string, HistoryBucket>,
+	target: Record<string, HistoryBucket>
+) {
+	for (const [key, bucket] of Object.entries(incoming)) {
+		if (bucket.size === 'day' || imported[key]) continue
+		const folded = emptyBucket(bucket.size, bucket.start)
+		let found = false
+		for (const [partKey, part] of Object.entries(imported)) {
+			if (part.size === bucket.size || !bucketContains(bucket, part)) continue
+			mergeBucket(folded, part)
+			delete imported[partKey]
+			found = true
+		}
+		if (!found) continue
+		imported[key] = folded
+		// Здесь эти дни ещё не свёрнуты: разница ляжет рядом с ними
+		if (!target[key]) target[key] = emptyBucket(bucket.size, bucket.start)
+	}
+}
+
+// Сливает выгрузку в target. Выгрузка с другой установки складывается с
+// текущими данными (работа на другой машине); итоги каждой установки
+// запоминаются, и следующая её выгрузка добавляет только то, что прибавилось
+// с прошлого импорта. Выгрузка с этой же установки — резервная копия: из неё
+// берутся только отсутствующие записи, чтобы не посчитать одно и то же дважды.
+// Записи с id (сессии, фрагменты, коммиты, массовые изменения, отрезки фокуса)
+// добавляются, только если такого id ещё нет. Состояние репозиториев (HEAD,
+// работа до коммита) относится к одной машине и не импортируется
+export function mergeExport(
+	target: StoredData,
+	file: ExportFile,
+	localSource: string
+): ImportResult {
+	const result: ImportResult = { days: 0, records: 0, skipped: 0 }
+	const sameSource = file.source === localSource
+	const source = file.data.store
+	const store = target.store
+	let imported: ImportedTotals | undefined
+	if (!sameSource) {
+		if (!store.importedTotals) store.importedTotals = {}
+		imported = store.importedTotals[file.source] || emptyImportedTotals()
+		store.importedTotals[file.source] = imported
+	}
+
+	// base — итоги этой установки из прошлых импортов; запись, удалённая здесь
+	// после прошлого импорта, не возвращается
+	function mergeMap<T>(
+		into: Record<string, T>,
+		from: Record<string, T> | undefined,
+		base?: Record<string, T>,
+		isDay = false
+	) {
+		for (const [key, value] of Object.entries(from || {})) {
+			const previous = base?.[key]
+			if (sameSource) {
+				if (into[key]) {
+					result.skipped++
+					continue
+				}
+				into[key] = copy(value)
+			} else if (previous === undefined) {
+				if (into[key]) applyDelta(into[key], copy(value))
+				else into[key] = copy(value)
+			} else if (into[key]) {
+				applyDelta(into[key], diffValue(value, previous))
+			} else {
+				base![key] = copy(value)
+				result.skipped++
+				continue
+			}
+			if (base) base[key] = copy(value)
+			if (isDay) result.days++
+			else result.records++
+		}
+	}
+
+	function mergeList<T extends { id: string }>(into: T[], from: T[] | undefined) {
+		const ids = new Set(into.map(item => item.id))
+		for (const item of from || []) {
+			if (ids.has(item.id)) {
+				result.skipped++
+				continue
+			}
+			into.push(copy(item))
+			ids.add(item.id)
+			result.records++
+		}
+		return into
+	}
+
+	mergeMap<FileStat>(store.files, source.files, imported?.files)
+	mergeMap<LanguageStat>(store.languages, source.languages, imported?.languages)
+	mergeMap<DailyStat>(store.dailyStats, source.dailyStats, imported?.dailyStats, true)
+	if (!store.history) store.history = {}
+	if (imported) foldImportedHistory(imported.history, source.history || {}, store.history)
+	mergeMap<HistoryBucket>(store.history, source.history, imported?.history)
+
+	if (!store.projects) store.projects = {}
+	for (const [id, project] of Object.entries(source.projects || {})) {
+		if (!store.projects[id]) store.projects[id] = { ...copy(project), dailyStats: {} }
+		let base: Record<string, DailyStat> | undefined
+		if (imported) base = imported.projectDays[id] || (imported.projectDays[id] = {})
+		mergeMap<DailyStat>(store.projects[id].dailyStats, project.dailyStats, base, true)
+	}
+
+	if (source.git) {
+		if (!store.git) store.git = { branches: {}, commits: [], repos: {} }
+		mergeMap(store.git.branches, source.git.branches, imported?.branches)
+		store.git.commits = mergeList(store.git.commits, source.git.commits).sort(
+			(a, b) => a.timestamp - b.timestamp
+		)
+	}
+	store.bulkChanges = mergeList(store.bulkChanges || [], source.bulkChanges).sort(
+		(a, b) => a.timestamp - b.timestamp
+	)
+	store.focusSessions = mergeList(store.focusSessions || [], source.focusSessions).sort(
+		(a, b) => a.start - b.start
+	)
+	mergeList(target.sessions, file.data.sessions).sort((a, b) => a.start - b.start)
+	mergeList(target.snippets, file.data.snippets).sort((a, b) => a.timestamp - b.timestamp)
+
+	if (!store.imports) store.imports = {}
+	store.imports[file.exportId] = {
+		source: file.source,
+		exportedAt: file.exportedAt,
+		importedAt: Date.now(),
+		range: file.range,
+	}
+	return result
+}
+
+function csvCell(value: string | number | undefined) {
+	const s = value === undefined ? '' : String(value)
+	return /[",\r\n]/.test(s) ? '"' + s.replace(/"/g, '""') + '"' : s
+}
+
+function csv(rows: (string | number | undefined)[][]) {
+	return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+const classificationColumns = CLASSIFICATIONS.flatMap(cls => [`${cls}_chars`, `${cls}_count`])
+
+function classificationCells(byClassification: DailyStat['byClassification']) {
+	return CLASSIFICATIONS.flatMap(cls => [
+		byClassification[cls]?.chars || 0,
+		byClassification[cls]?.count || 0,
+	])
+}
+
+function churnCells(stat: { churn?: DailyStat['churn'] }) {
+	const churn = stat.churn
+	return [
+		churn?.removedChars || 0,
+		churn?.addedLines || 0,
+		churn?.removedLines || 0,
+		churn?.undoRedo.count || 0,
+	]
+}
+
+const churnColumns = ['removed_chars', 'added_lines', 'removed_lines', 'undo_redo']
+
+export function dailyCsv(days: DailyStat[]): string {
+	return csv([
+		['date', 'chars', 'lines', 'time_seconds', 'idle_seconds', ...churnColumns, ...classificationColumns],
+		...days.map(d => [
+			d.date,
+			d.totalChars,
+			d.lines || 0,
+			Math.round(d.totalTime),
+			Math.round(d.idleTime || 0),
+			...churnCells(d),
+			...classificationCells(d.byClassification),
+		]),
+	])
+}
+
+export function languagesCsv(languages: LanguageStat[]): string {
+	return csv([
+		['language', 'chars', 'lines', 'time_seconds', ...churnColumns, ...classificationColumns],
+		...languages.map(l => [
+			l.language,
+			l.chars,
+			l.lines,
+			Math.round(l.timeSeconds),
+			...churnCells(l),
+			...classificationCells(l.byClassification),
+		]),
+	])
+}
+
+export function filesCsv(files: FileStat[], projectName: (id?: string) => string): string {
+	return csv([
+		[
+			'file',
+			'folder',
+			'project',
+			'language',
+			'chars',
+			'lines',
+			'time_seconds',
+			'last_active',
+			...churnColumns,
+			...classificationColumns,
+		],
+		...files.map(f => [
+			f.file,
+			f.folder,
+			projectName(f.project),
+			f.language,
+			f.chars,
+			f.lines,
+			Math.round(f.timeSeconds),
+			f.lastActive ? new Date(f.lastActive).toISOString() : '',
+			...churnCells(f),
+			...classificationCells(f.byClassification),
+		]),
+	])
+}
+
+// Языки и файлы за период: из истории известны только время и символы
+export function periodLanguagesCsv(languages: PeriodLanguage[]): string {
+	return csv([
+		['language', 'chars', 'time_seconds'],
+		...languages.map(l => [l.language, l.chars, Math.round(l.seconds)]),
+	])
+}
+
+export function periodFilesCsv(files: PeriodFile[], projectName: (id?: string) => string): string {
+	return csv([
+		['file', 'folder', 'project', 'language', 'chars', 'time_seconds'],
+		...files.map(f => [
+			f.file,
+			f.folder,
+			projectName(f.project),
+			f.language,
+			f.chars,
+			Math.round(f.seconds),
+		]),
+	])
+}
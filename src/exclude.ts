@@ -0,0 +1,68 @@
+// src/exclude.ts
+// Документы, которые пользователь исключил из учёта: совпавшие с шаблонами
+// codingTracker.exclude и безымянные, пока не включён codingTracker.trackUntitled.
+// Служебные документы отсекает resolveDocument в documents.ts
+import minimatch = require('minimatch')
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { CONFIG_SECTION } from './config'
+
+export interface ExcludeFilter {
+	// Документ или файл пользовательского редактора, у которого нет документа
+	isExcluded(doc: vscode.TextDocument | vscode.Uri): boolean
+	// Сбрасывает кэш после изменения настроек
+	clear(): void
+}
+
+// Относительный шаблон («*.log», «secret/**») ищется в любой папке, как в .gitignore
+export function normalizePattern(pattern: string): string {
+	const trimmed = pattern.trim().replace(/\\/g, '/')
+	if (trimmed.startsWith('**') || path.isAbsolute(trimmed) || /^[a-z]:\//i.test(trimmed)) {
+		return trimmed
+	}
+	return '**/' + trimmed.replace(/^\.?\//, '')
+}
+
+// Как в шаблонах VS Code: «*» и «**» захватывают и скрытые файлы, на Windows
+// регистр не важен
+const MATCH_OPTIONS = { dot: true, nocase: process.platform === 'win32' }
+
+// Путь, с которым сравнивается шаблон: у локального файла — путь на диске
+// с прямыми косыми чертами, у удалённого — путь из URI
+function matchPath(uri: vscode.Uri): string {
+	return uri.scheme === 'file' ? uri.fsPath.replace(/\\/g, '/') : uri.path
+}
+
+export function createExcludeFilter(): ExcludeFilter {
+	// Решение по документу кэшируется: проверка идёт на каждое изменение
+	const cache = new Map<string, boolean>()
+
+	function check(uri: vscode.Uri): boolean {
+		// Настройки читаются для ресурса: закрытый репозиторий может исключить
+		// себя целиком через «"codingTracker.exclude": ["**"]» в .vscode/settings.json
+		const cfg = vscode.workspace.getConfiguration(CONFIG_SECTION, uri)
+		if (uri.scheme === 'untitled' && !cfg.get<boolean>('trackUntitled', false)) return true
+		const filePath = matchPath(uri)
+		return cfg
+			.get<string[]>('exclude', [])
+			.filter(pattern => pattern.trim())
+			.some(pattern => minimatch(filePath, normalizePattern(pattern), MATCH_OPTIONS))
+	}
+
+	return {
+		isExcluded(target) {
+			const uri = target instanceof vscode.Uri ? target : target.uri
+			const key = uri.toString()
+			let excluded = cache.get(key)
+			if (excluded === undefined) {
+				excluded = check(uri)
+				cache.set(key, excluded)
+			}
+			return excluded
+		},
+		clear() {
+			cache.clear()
+		},
+	}
+}
@@ -1,89 +1,334 @@
 // src/extension.ts
+import * as crypto from 'crypto'
 import * as path from 'path'
 import * as vscode from 'vscode'
 
-type Classification = 'manual' | 'paste' | 'ai'
-
-interface SnippetRecord {
-	id: string
-	file: string
-	folder: string
-	language: string
-	text: string
-	classification: Classification
-	timestamp: number
-	chars: number
-	lines: number
-}
-
-interface FileStat {
-	file: string
-	folder: string
-	language: string
-	timeSeconds: number
-	chars: number
-	lines: number
-	byClassification: Record<Classification, { chars: number; count: number }>
-	lastActive?: number
-}
-
-interface LanguageStat {
-	language: string
-	chars: number
-	lines: number
-	timeSeconds: number
-	byClassification: Record<Classification, { chars: number; count: number }>
-}
-
-interface DailyStat {
-	date: string
-	totalChars: number
-	totalTime: number
-	byClassification: Record<Classification, { chars: number; count: number }>
-}
-
-interface Aggregate {
-	files: Record<string, FileStat>
-	languages: Record<string, LanguageStat>
-	lastUpdate: number
-	dailyStats: Record<string, DailyStat>
-}
-
+import {
+	ChangeEvent,
+	classifyChange,
+	CLASSIFICATION_INFO,
+	CLASSIFICATIONS,
+	bulkChangeRule,
+	DEFAULT_RULES,
+	emptyClassificationStats,
+	fillClassificationStats,
+} from './classifier'
+import { CONFIG_SECTION, readConfig } from './config'
+import {
+	dayKey,
+	dayStart,
+	hourStart,
+	isDayKey,
+	shiftDayKey,
+	splitByDay,
+	splitByHour,
+	startOfDay,
+	startOfMonth,
+	weekdayOfKey,
+	weekStartKey,
+} from './days'
+import {
+	displayName,
+	isTrackedKey,
+	resolveCustomEditor,
+	resolveDocument,
+	TrackedDocument,
+	uriFromKey,
+} from './documents'
+import { dashboardResourceRoots, getDashboardHtml } from './dashboard'
+import { createExcludeFilter } from './exclude'
+import {
+	branchLabel,
+	commitSubject,
+	isCommitEntry,
+	readHead,
+	readLastReflogEntry,
+	ReflogEntry,
+} from './git'
+import {
+	buildExport,
+	dailyCsv,
+	ExportFile,
+	filesCsv,
+	languagesCsv,
+	mergeExport,
+	parseExport,
+	periodFilesCsv,
+	periodLanguagesCsv,
+} from './exchange'
+import { deleteDays, forgetFiles, forgetLanguage, removeWhere, resetData } from './forget'
+import {
+	focusRecord,
+	FocusState,
+	nextPhase,
+	PHASE_LABELS,
+	phaseSeconds,
+	remainingSeconds,
+	startFocus,
+} from './focus'
+import { evaluateGoals, GoalProgress, periodTotals } from './goals'
+import {
+	addPoint,
+	buildTrend,
+	compactHistory,
+	emptyBucket,
+	emptyDailyStat,
+	fillLanguageDays,
+	historyFromSessions,
+	historyKey,
+	historyTotals,
+	languageDailyStats,
+	languageDayKey,
+} from './history'
+import {
+	daysInRange,
+	localDailyStats,
+	normalizeRange,
+	previousRange,
+	summarizeDays,
+} from './periods'
+import { clearGitRootCache, ProjectInfo, resolveProject } from './projects'
+import {
+	DayDetails,
+	DayFileStat,
+	FocusData,
+	GitData,
+	HeatmapDay,
+	HostMessage,
+	PeriodData,
+	ProjectSummary,
+	SnippetHistory,
+	WebviewMessage,
+} from './protocol'
+import {
+	formatDuration,
+	formatNumber,
+	renderReportHtml,
+	ReportData,
+	WINDOW_LABELS,
+} from './report'
+import {
+	addSessionChars,
+	addSessionTime,
+	buildSessionTimeline,
+	createSession,
+	isEmptySession,
+	pruneSessions,
+} from './sessions'
+import { createStorage, projectDayKey, StoredData } from './storage'
+import {
+	Aggregate,
+	BulkChangeRecord,
+	BranchStat,
+	ChurnStat,
+	CodingSession,
+	CommitRecord,
+	DailyStat,
+	DayRange,
+	ExtraStats,
+	FileStat,
+	FocusSessionRecord,
+	GitStats,
+	HistoryBucket,
+	HourlyHeatmap,
+	HourlyStat,
+	LanguageStat,
+	PeriodFile,
+	PeriodLanguage,
+	ProjectStat,
+	RepoState,
+	SessionFileStat,
+	SnippetRecord,
+	TimeWindowStat,
+	TrendData,
+} from './types'
+
+// Ключи globalState версии 1: читаются только для миграции в хранилище
 const STORAGE_KEY = 'codingTracker.v1'
-const SAVE_DEBOUNCE_MS = 5000
+const SESSIONS_KEY = 'codingTracker.sessions.v1'
+const SNIPPETS_KEY = 'codingTracker.snippets.v1'
+// Цели, о достижении которых уже сообщили: «период:цель» → ключ дня или недели
+const GOALS_NOTIFIED_KEY = 'codingTracker.goalsNotified'
+// За сколько до конца дня предупреждать, что серия прервётся
+const STREAK_WARNING_MS = 2 * 60 * 60 * 1000
+const DAY_MODEL_VERSION = 1
+const MAX_BULK_CHANGES = 200
+const MAX_COMMITS = 500
+const GIT_POLL_MS = 5000
+// Дольше сохранение не ждёт участников onWillSave; позже правки — уже не от сохранения
+const SAVE_WINDOW_MS = 5000
+// Период панели, пока пользователь не выбрал свой
+const DEFAULT_PERIOD_DAYS = 30
 
 export function activate(context: vscode.ExtensionContext) {
 	const output = vscode.window.createOutputChannel('CodingTracker')
 	output.appendLine('CodingTracker activated')
 
-	let store: Aggregate = context.globalState.get<Aggregate>(STORAGE_KEY) || {
-		files: {},
-		languages: {},
-		dailyStats: {},
-		lastUpdate: Date.now(),
+	let config = readConfig()
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(e => {
+			if (!e.affectsConfiguration(CONFIG_SECTION)) return
+			config = readConfig()
+			exclude.clear()
+			setTimeTarget(currentTimeTarget())
+			updateStatusBar()
+			sendDataToPanel()
+		})
+	)
+
+	const storage = createStorage(
+		context.globalStorageUri.fsPath,
+		message => output.appendLine(message),
+		() => save(true)
+	)
+	const legacyStore = context.globalState.get<Aggregate>(STORAGE_KEY)
+	const loaded = storage.load(
+		legacyStore && {
+			store: legacyStore,
+			sessions: context.globalState.get<CodingSession[]>(SESSIONS_KEY) || [],
+			snippets: context.globalState.get<SnippetRecord[]>(SNIPPETS_KEY) || [],
+		},
+		{
+			store: {
+				files: {},
+				languages: {},
+				dailyStats: {},
+				lastUpdate: Date.now(),
+				dayModel: DAY_MODEL_VERSION,
+			},
+			sessions: [],
+			snippets: [],
+		}
+	)
+
+	// Данные версии 1 остаются в globalState, пока не записан снимок с ними
+	let legacyPending = loaded.source === 'legacy'
+	let store: Aggregate = loaded.data.store
+	let sessions: CodingSession[] = loaded.data.sessions
+	let snippets: SnippetRecord[] = loaded.data.snippets
+	// Текущая сессия; начинается с первой активности и закрывается при простое
+	let currentSession: CodingSession | undefined
+
+	migrateDailyStats()
+	fillMissingClassifications()
+	purgeVirtualDocuments()
+	fillMissingProjects()
+	fillMissingHistory()
+	// Миграции выше переписывают записи целиком — начинаем со свежего снимка
+	useStoredData(storage.sync(storedData(), true))
+	clearLegacyState()
+
+	// Хранилище было занято или запись не удалась — повторим после следующего сохранения
+	function clearLegacyState() {
+		if (!legacyPending || !storage.hasSnapshot()) return
+		legacyPending = false
+		void context.globalState.update(STORAGE_KEY, undefined)
+		void context.globalState.update(SESSIONS_KEY, undefined)
+		void context.globalState.update(SNIPPETS_KEY, undefined)
+		output.appendLine(`Moved data from globalState to ${context.globalStorageUri.fsPath}`)
 	}
 
 	const now = () => Date.now()
 	const uid = () => Math.random().toString(36).slice(2, 9)
 
+	// Ключи dailyStats раньше были датами UTC
+	function migrateDailyStats() {
+		if (store.dayModel === DAY_MODEL_VERSION) return
+		const migrated = localDailyStats(store.dailyStats, config.dayStartHour)
+		store.dailyStats = migrated
+		store.dayModel = DAY_MODEL_VERSION
+		output.appendLine(`Migrated ${Object.keys(migrated).length} daily stats to local days`)
+	}
+
+	// Статистика, сохранённая до появления новых категорий, получает пустые счётчики
+	function fillMissingClassifications() {
+		for (const stat of [
+			...Object.values(store.files),
+			...Object.values(store.languages),
+			...Object.values(store.dailyStats),
+			...Object.values(store.projects || {}).flatMap(p => Object.values(p.dailyStats)),
+		]) {
+			fillClassificationStats(stat.byClassification)
+		}
+	}
+
+	// Файлы, записанные до появления проектов, относим к проекту по их пути.
+	// Файлы вне репозиториев и текущих папок оставляем без проекта: куда они
+	// относились раньше, уже не узнать
+	function fillMissingProjects() {
+		for (const fileStat of Object.values(store.files)) {
+			if (fileStat.project) continue
+			const info = getProjectFromUri(uriFromKey(fileStat.file))
+			if (info.kind === 'none') continue
+			ensureProjectStat(info)
+			fileStat.project = info.id
+		}
+	}
+
+	// Данные, записанные до появления истории, получают её из сохранённых сессий:
+	// дневная статистика по языкам и файлам не делится
+	function fillMissingHistory() {
+		if (!store.history) {
+			store.history = historyFromSessions(sessions, config.dayStartHour)
+			output.appendLine(`Built history for ${Object.keys(store.history).length} days from sessions`)
+		}
+		// Дни, записанные до статистики языков по дням
+		let filled = 0
+		for (const bucket of Object.values(store.history)) {
+			if (bucket.size !== 'day' || bucket.days) continue
+			fillLanguageDays(bucket, file => store.files[file])
+			filled++
+		}
+		if (filled > 0) output.appendLine(`Built language stats for ${filled} days from history`)
+	}
+
+	// Окна вывода и безымянные документы, записанные старыми версиями под
+	// относительным «путём», убираем вместе с их долей в итогах языков
+	function purgeVirtualDocuments() {
+		const keys = Object.keys(store.files).filter(key => !isTrackedKey(key))
+		if (keys.length === 0) return
+		forgetFiles(storedData(), keys, storage.touch)
+		output.appendLine(`Removed ${keys.length} non-file documents from stats`)
+	}
+
 	let saveTimeout: NodeJS.Timeout | undefined
 	let lastSaveTime = 0
 
-	function save(force = false) {
+	function storedData(): StoredData {
+		return { store, sessions, snippets }
+	}
+
+	// После сжатия хранилища другим окном sync возвращает перечитанные данные
+	function useStoredData(data: StoredData) {
+		if (data.store === store) return
+		store = data.store
+		sessions = data.sessions
+		snippets = data.snippets
+		if (currentSession) {
+			const id = currentSession.id
+			currentSession = sessions.find(s => s.id === id)
+		}
+		output.appendLine('Reloaded data compacted by another window')
+	}
+
+	function save(force = false, compact = false) {
 		const nowTime = Date.now()
 		
 		// Дебаунс сохранения
-		if (!force && nowTime - lastSaveTime < SAVE_DEBOUNCE_MS) {
+		if (!force && nowTime - lastSaveTime < config.saveDebounceMs) {
 			if (saveTimeout) {
 				clearTimeout(saveTimeout)
 			}
-			saveTimeout = setTimeout(() => save(true), SAVE_DEBOUNCE_MS)
+			saveTimeout = setTimeout(() => save(true), config.saveDebounceMs)
 			return
 		}
 		
 		store.lastUpdate = nowTime
 		lastSaveTime = nowTime
-		void context.globalState.update(STORAGE_KEY, store)
+		// В журнал попадают только записи, отмеченные через storage.touch,
+		// заодно подтягиваются изменения других окон
+		useStoredData(storage.sync(storedData(), compact))
+		clearLegacyState()
 		
 		if (saveTimeout) {
 			clearTimeout(saveTimeout)
@@ -97,13 +342,39 @@ export function activate(context: vscode.ExtensionContext) {
 			return (
 				ws.name + ':' + path.relative(ws.uri.fsPath, path.dirname(uri.fsPath))
 			)
+		if (uri.scheme === 'untitled') return 'Без имени'
 		return path.dirname(uri.fsPath)
 	}
 
+	function getProjectFromUri(uri: vscode.Uri): ProjectInfo {
+		const ws = vscode.workspace.getWorkspaceFolder(uri)
+		// Репозиторий ищется только на локальном диске; удалённые файлы относятся к папке
+		return resolveProject(
+			uri.scheme === 'file' ? uri.fsPath : '',
+			ws && { name: ws.name, fsPath: ws.uri.fsPath }
+		)
+	}
+
+	// git init, git clone или удаление репозитория меняют проект файлов;
+	// .git вне папок рабочей области заметен только после её смены
+	const gitWatcher = vscode.workspace.createFileSystemWatcher('**/.git', false, true, false)
+	context.subscriptions.push(
+		gitWatcher,
+		gitWatcher.onDidCreate(() => clearGitRootCache()),
+		gitWatcher.onDidDelete(() => clearGitRootCache()),
+		vscode.workspace.onDidChangeWorkspaceFolders(() => clearGitRootCache())
+	)
+
+	// Файл, время и ввод в котором учитываются; undefined — документ не учитывается
+	function trackedDocument(doc: vscode.TextDocument): TrackedDocument | undefined {
+		return exclude.isExcluded(doc) ? undefined : resolveDocument(doc)
+	}
+
 	function ensureFileStat(
 		filePath: string,
 		language: string,
-		folder: string
+		folder: string,
+		project: string
 	): FileStat {
 		if (!store.files[filePath]) {
 			store.files[filePath] = {
@@ -113,16 +384,30 @@ export function activate(context: vscode.ExtensionContext) {
 				timeSeconds: 0,
 				chars: 0,
 				lines: 0,
-				byClassification: {
-					manual: { chars: 0, count: 0 },
-					paste: { chars: 0, count: 0 },
-					ai: { chars: 0, count: 0 },
-				},
+				byClassification: emptyClassificationStats(),
 			}
 		}
+		// Проект может смениться, например после git init в папке
+		store.files[filePath].project = project
+		storage.touch('files', filePath)
 		return store.files[filePath]
 	}
 
+	function ensureProjectStat(info: ProjectInfo): ProjectStat {
+		if (!store.projects) store.projects = {}
+		if (!store.projects[info.id]) {
+			store.projects[info.id] = {
+				id: info.id,
+				name: info.name,
+				root: info.root,
+				kind: info.kind,
+				dailyStats: {},
+			}
+		}
+		storage.touch('projects', info.id)
+		return store.projects[info.id]
+	}
+
 	function ensureLanguageStat(language: string): LanguageStat {
 		if (!store.languages[language]) {
 			store.languages[language] = {
@@ -130,194 +415,1134 @@ export function activate(context: vscode.ExtensionContext) {
 				chars: 0,
 				lines: 0,
 				timeSeconds: 0,
-				byClassification: {
-					manual: { chars: 0, count: 0 },
-					paste: { chars: 0, count: 0 },
-					ai: { chars: 0, count: 0 },
-				},
+				byClassification: emptyClassificationStats(),
 			}
 		}
+		storage.touch('languages', language)
 		return store.languages[language]
 	}
 
-	function ensureDailyStat(dateStr: string): DailyStat {
-		if (!store.dailyStats[dateStr]) {
-			store.dailyStats[dateStr] = {
+	// Дневная статистика: общая или, если передан project, — проекта
+	function ensureDailyStat(dateStr: string, project?: ProjectStat): DailyStat {
+		const dailyStats = project ? project.dailyStats : store.dailyStats
+		if (!dailyStats[dateStr]) {
+			dailyStats[dateStr] = {
 				date: dateStr,
 				totalChars: 0,
 				totalTime: 0,
-				byClassification: {
-					manual: { chars: 0, count: 0 },
-					paste: { chars: 0, count: 0 },
-					ai: { chars: 0, count: 0 },
-				},
+				byClassification: emptyClassificationStats(),
 			}
 		}
-		return store.dailyStats[dateStr]
+		if (project) storage.touch('projectDays', projectDayKey(project.id, dateStr))
+		else storage.touch('dailyStats', dateStr)
+		return dailyStats[dateStr]
 	}
 
-	let lastActiveEditorUri: string | null = null
+	// Дневная корзина истории языков и файлов
+	function ensureHistoryBucket(dateStr: string): HistoryBucket {
+		if (!store.history) store.history = {}
+		const key = historyKey('day', dateStr)
+		if (!store.history[key]) store.history[key] = emptyBucket('day', dateStr)
+		storage.touch('history', key)
+		return store.history[key]
+	}
+
+	// Статистика языка в проекте за день; хранится в дневной корзине истории
+	function ensureLanguageDay(dateStr: string, project: string | undefined, language: string) {
+		const bucket = ensureHistoryBucket(dateStr)
+		if (!bucket.days) bucket.days = {}
+		const key = languageDayKey(project, language)
+		if (!bucket.days[key]) bucket.days[key] = emptyDailyStat(dateStr)
+		return bucket.days[key]
+	}
+
+	// Куда идут дневные данные файла: в общую статистику, в его проект и в его
+	// язык внутри проекта
+	function dailyStatsFor(
+		dateStr: string,
+		fileStat: FileStat | undefined,
+		language: string
+	): DailyStat[] {
+		const project = fileStat?.project ? store.projects?.[fileStat.project] : undefined
+		const stats = [ensureDailyStat(dateStr)]
+		if (project) stats.push(ensureDailyStat(dateStr, project))
+		stats.push(ensureLanguageDay(dateStr, fileStat?.project, language))
+		return stats
+	}
+
+	function ensureChurn(stat: { churn?: ChurnStat }): ChurnStat {
+		if (!stat.churn) {
+			stat.churn = {
+				removedChars: 0,
+				removedLines: 0,
+				addedLines: 0,
+				undoRedo: { count: 0, addedChars: 0, removedChars: 0 },
+			}
+		}
+		return stat.churn
+	}
+
+	function ensureHours(dailyStat: DailyStat): HourlyStat {
+		if (!dailyStat.hours) {
+			dailyStat.hours = { time: Array(24).fill(0), chars: Array(24).fill(0) }
+		}
+		return dailyStat.hours
+	}
+
+	const item = vscode.window.createStatusBarItem(
+		vscode.StatusBarAlignment.Left,
+		100
+	)
+	item.command = 'codingTracker.openDashboard'
+	item.show()
+	context.subscriptions.push(item)
+
+	// Исключённые документы не учитываются вовсе: ни время, ни ввод, ни фрагменты
+	const exclude = createExcludeFilter()
+	// Файл, которому сейчас идёт время, и язык: у блокнота — язык текущей ячейки
+	let timeTarget: { file: TrackedDocument; language: string } | undefined
 	let lastActiveTime = now()
+	// Последний момент, когда пользователь что-то делал (ввод, выделение, прокрутка, терминал)
+	let lastActivityTime = now()
+	// Начало текущего простоя; null — отслеживание идёт
+	let idleSince: number | null = null
+
+	function idleTimeoutMs() {
+		return config.idleTimeoutMinutes * 60 * 1000
+	}
+
+	function goalProgress(): GoalProgress[] {
+		const today = dayKey(now(), config.dayStartHour)
+		return [
+			...evaluateGoals(periodTotals(store.dailyStats, today, 'day'), config.goals.daily, 'day'),
+			...evaluateGoals(
+				periodTotals(store.dailyStats, today, 'week'),
+				config.goals.weekly,
+				'week'
+			),
+		]
+	}
+
+	function formatGoalValue(goal: GoalProgress, value: number) {
+		if (goal.id === 'minutes') return formatDuration(value * 60)
+		if (goal.id === 'maxAiPercent') return `${value}%`
+		return formatNumber(value)
+	}
+
+	function goalLine(goal: GoalProgress) {
+		const period = goal.period === 'day' ? 'за день' : 'за неделю'
+		let icon = goal.limit ? '$(pass)' : '$(circle-large-outline)'
+		if (goal.reached) icon = goal.limit ? '$(warning)' : '$(pass-filled)'
+		const value = goal.limit
+			? `${formatGoalValue(goal, goal.current)} (предел ${formatGoalValue(goal, goal.target)})`
+			: `${formatGoalValue(goal, goal.current)} из ${formatGoalValue(goal, goal.target)}`
+		return `${icon} ${goal.label} ${period}: ${value}`
+	}
+
+	function updateStatusBar() {
+		const windows = buildTimeWindows()
+		const goals = goalProgress()
+		const extra = buildExtraStats()
+		const dailyMinutes = goals.find(g => g.period === 'day' && g.id === 'minutes')
+		const progress = dailyMinutes ? ` · ${Math.round(dailyMinutes.ratio * 100)}%` : ''
+		// Все цели выполнены и ни один предел не превышен
+		const allMet = goals.length > 0 && goals.every(g => g.reached !== g.limit)
+		const icon = idleSince !== null ? '$(debug-pause)' : allMet ? '$(pass-filled)' : '$(graph)'
+		item.text = `${icon} ${formatDuration(windows.today.seconds)}${progress}`
+
+		const tooltip = new vscode.MarkdownString('', true)
+		tooltip.appendMarkdown('**Coding Tracker**\n\n')
+		if (idleSince !== null) {
+			tooltip.appendMarkdown(
+				`$(debug-pause) Отслеживание приостановлено: нет активности больше ${config.idleTimeoutMinutes} мин\n\n`
+			)
+		}
+		tooltip.appendMarkdown('| Период | Время | Символы |\n|---|---:|---:|\n')
+		for (const [id, label] of Object.entries(WINDOW_LABELS)) {
+			const w = windows[id]
+			tooltip.appendMarkdown(
+				`| ${label} | ${formatDuration(w.seconds)} | ${formatNumber(w.chars)} |\n`
+			)
+		}
+		if (goals.length > 0) {
+			tooltip.appendMarkdown('\n**Цели**\n\n')
+			tooltip.appendMarkdown(goals.map(goalLine).join('\n\n') + '\n')
+		}
+		tooltip.appendMarkdown(
+			`\n$(flame) Серия: ${extra.currentStreak} дн. (рекорд ${extra.maxStreak})`
+		)
+		item.tooltip = tooltip
+
+		notifyGoals(goals, extra)
+	}
+
+	// Сообщает о достигнутой цели или превышенном пределе один раз за период и
+	// предупреждает, что серия прервётся, если сегодня ещё ничего не написано
+	function notifyGoals(goals: GoalProgress[], extra: ExtraStats) {
+		if (!config.goals.notifications) return
+		const t = now()
+		const today = dayKey(t, config.dayStartHour)
+		const notified = { ...context.globalState.get<Record<string, string>>(GOALS_NOTIFIED_KEY) }
+		const messages: { text: string; warning: boolean }[] = []
+
+		for (const goal of goals) {
+			if (!goal.reached) continue
+			const id = `${goal.period}:${goal.id}`
+			const periodKey = goal.period === 'day' ? today : weekStartKey(today)
+			if (notified[id] === periodKey) continue
+			notified[id] = periodKey
+			const value = formatGoalValue(goal, goal.current)
+			if (goal.limit) {
+				const period = goal.period === 'day' ? 'за день' : 'за неделю'
+				messages.push({
+					text: `${goal.label} ${period} — ${value}, выше предела ${formatGoalValue(goal, goal.target)}`,
+					warning: true,
+				})
+			} else {
+				const period = goal.period === 'day' ? 'на день' : 'на неделю'
+				messages.push({
+					text: `Цель ${period} выполнена: ${goal.label.toLowerCase()} — ${value}`,
+					warning: false,
+				})
+			}
+		}
+
+		const dayEnd = dayStart(shiftDayKey(today, 1), config.dayStartHour)
+		const activeToday = (store.dailyStats[today]?.totalChars || 0) > 0
+		if (
+			extra.currentStreak >= 2 &&
+			!activeToday &&
+			dayEnd - t <= STREAK_WARNING_MS &&
+			notified.streak !== today
+		) {
+			notified.streak = today
+			messages.push({
+				text: `Серия ${extra.currentStreak} дн. прервётся через ${formatDuration((dayEnd - t) / 1000)}: сегодня ещё не было ввода`,
+				warning: true,
+			})
+		}
+
+		if (messages.length === 0) return
+		void context.globalState.update(GOALS_NOTIFIED_KEY, notified)
+		for (const message of messages) {
+			if (message.warning) void vscode.window.showWarningMessage(message.text)
+			else void vscode.window.showInformationMessage(message.text)
+		}
+	}
+
+	// Режим фокуса живёт только в этом окне и не переживает перезапуск
+	let focus: FocusState | undefined
+	let focusInterval: NodeJS.Timeout | undefined
+	const focusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99)
+	focusItem.command = 'codeTime.focus'
+	context.subscriptions.push(focusItem)
+	// Сессия, о перерыве в которой уже напомнили
+	let breakRemindedSession: string | undefined
+
+	function formatCountdown(seconds: number) {
+		const s = Math.max(0, Math.ceil(seconds))
+		const m = Math.floor(s / 60)
+		return `${m}:${String(s % 60).padStart(2, '0')}`
+	}
+
+	// Активное время, ещё не засчитанное creditTime
+	function pendingActiveSeconds() {
+		return timeTarget && idleSince === null ? Math.max(0, (now() - lastActiveTime) / 1000) : 0
+	}
+
+	function recordFocusSession(record: FocusSessionRecord) {
+		if (!store.focusSessions) store.focusSessions = []
+		store.focusSessions.push(record)
+		storage.touch('focusSessions', record.id)
+		save()
+	}
+
+	// Досрочно прерванный рабочий отрезок тоже записываем, если в нём была работа
+	function recordUnfinishedWork(t: number) {
+		if (focus?.phase !== 'work') return
+		if (idleSince === null) creditTime(t)
+		if (focus.activeSeconds >= 60) {
+			recordFocusSession(focusRecord(focus, config.focus, uid(), t, false))
+		}
+	}
+
+	function updateFocus() {
+		if (!focus) {
+			focusItem.hide()
+			return
+		}
+		const t = now()
+		const left = remainingSeconds(focus, config.focus, t, pendingActiveSeconds())
+		if (left <= 0) {
+			completeFocusPhase(t)
+			return
+		}
+		const paused = focus.phase === 'work' && (idleSince !== null || !timeTarget)
+		const icon = focus.phase !== 'work' ? '$(coffee)' : paused ? '$(debug-pause)' : '$(target)'
+		focusItem.text = `${icon} ${formatCountdown(left)}`
+		focusItem.tooltip =
+			`${PHASE_LABELS[focus.phase]}: осталось ${formatCountdown(left)}` +
+			(paused ? '\nОтсчёт идёт только во время работы в редакторе' : '') +
+			`\nЗавершено отрезков: ${focus.cycles}`
+		focusItem.show()
+	}
 
-	function setActiveEditor(editor: vscode.TextEditor | undefined) {
+	function completeFocusPhase(t: number) {
+		if (!focus) return
+		if (focus.phase === 'work') {
+			if (idleSince === null) creditTime(t)
+			recordFocusSession(focusRecord(focus, config.focus, uid(), t, true))
+		}
+		focus = nextPhase(focus, config.focus, t)
+		const minutes = Math.round(phaseSeconds(focus.phase, config.focus) / 60)
+		void vscode.window.showInformationMessage(
+			focus.phase === 'work'
+				? `Перерыв окончен — следующий отрезок фокуса: ${minutes} мин`
+				: `Отрезок фокуса завершён. ${PHASE_LABELS[focus.phase]}: ${minutes} мин`
+		)
+		updateFocus()
+		sendDataToPanel()
+	}
+
+	function stopFocus() {
+		recordUnfinishedWork(now())
+		focus = undefined
+		if (focusInterval) clearInterval(focusInterval)
+		focusInterval = undefined
+		updateFocus()
+		sendDataToPanel()
+	}
+
+	async function focusCommand() {
+		if (!focus) {
+			// Засчитываем время до старта, чтобы оно не попало в первый отрезок
+			setTimeTarget(currentTimeTarget())
+			focus = startFocus(now())
+			focusInterval = setInterval(updateFocus, 1000)
+			updateFocus()
+			void vscode.window.showInformationMessage(
+				`Режим фокуса: ${config.focus.workMinutes} мин работы, затем перерыв ${config.focus.breakMinutes} мин`
+			)
+			return
+		}
+		const picked = await vscode.window.showQuickPick(
+			[
+				{
+					label:
+						focus.phase === 'work'
+							? '$(debug-step-over) Закончить отрезок досрочно и начать перерыв'
+							: '$(debug-step-over) Пропустить перерыв',
+					action: 'skip',
+				},
+				{ label: '$(debug-stop) Выключить режим фокуса', action: 'stop' },
+			],
+			{
+				placeHolder: `${PHASE_LABELS[focus.phase]} — осталось ${formatCountdown(
+					remainingSeconds(focus, config.focus, now(), pendingActiveSeconds())
+				)}`,
+			}
+		)
+		if (!picked || !focus) return
+		if (picked.action === 'stop') {
+			stopFocus()
+			return
+		}
 		const t = now()
-		if (lastActiveEditorUri) {
-			const delta = (t - lastActiveTime) / 1000
-			const fileStat = store.files[lastActiveEditorUri]
-			if (fileStat) {
-				fileStat.timeSeconds += delta
-				const langStat = ensureLanguageStat(fileStat.language)
-				langStat.timeSeconds += delta
-				
-				// Обновляем время в статистике за день
-				const dateStr = new Date(t).toISOString().split('T')[0]
-				const dailyStat = ensureDailyStat(dateStr)
-				dailyStat.totalTime += delta
+		recordUnfinishedWork(t)
+		focus = nextPhase(focus, config.focus, t)
+		updateFocus()
+		sendDataToPanel()
+	}
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('codeTime.focus', () => focusCommand())
+	)
+
+	// Напоминание о перерыве: сессия без простоев длиннее codingTracker.breakReminderMinutes.
+	// В режиме фокуса перерывы задаёт он сам
+	function remindBreak(t: number) {
+		if (focus || config.breakReminderMinutes <= 0 || !currentSession) return
+		if (breakRemindedSession === currentSession.id) return
+		const minutes = (t - currentSession.start) / 60000
+		if (minutes < config.breakReminderMinutes) return
+		breakRemindedSession = currentSession.id
+		void vscode.window
+			.showInformationMessage(
+				`Вы работаете без перерыва ${formatDuration(minutes * 60)}. Пора отдохнуть.`,
+				'Включить режим фокуса'
+			)
+			.then(action => {
+				if (action === 'Включить режим фокуса') void focusCommand()
+			})
+	}
+
+	// Статистика файла вместе с проектом. Создаётся и при вводе, и при одном
+	// просмотре: блокнот или пользовательский редактор может ни разу не меняться
+	function ensureTrackedFile(file: TrackedDocument) {
+		const project = ensureProjectStat(getProjectFromUri(file.uri))
+		const folder = getFolderFromUri(file.uri)
+		return { fileStat: ensureFileStat(file.key, file.language, folder, project.id), project }
+	}
+
+	function creditTime(until: number) {
+		if (timeTarget && until > lastActiveTime) {
+			const delta = (until - lastActiveTime) / 1000
+			const { file, language } = timeTarget
+			const { fileStat, project } = ensureTrackedFile(file)
+			fileStat.timeSeconds += delta
+			fileStat.lastActive = until
+			const langStat = ensureLanguageStat(language)
+			langStat.timeSeconds += delta
+			if (focus?.phase === 'work') focus.activeSeconds += delta
+			if (currentSession) {
+				storage.touch('sessions', currentSession.id)
+				addSessionTime(currentSession, file.key, language, delta, until)
 			}
+
+			// Обновляем время в статистике за день, разрезая интервал по границам часов
+			for (const part of splitByHour(lastActiveTime, until, config.dayStartHour)) {
+				for (const dailyStat of dailyStatsFor(part.key, fileStat, language)) {
+					dailyStat.totalTime += part.seconds
+					ensureHours(dailyStat).time[part.hour] += part.seconds
+				}
+				const bucket = ensureHistoryBucket(part.key)
+				addPoint(bucket.files, file.key, part.seconds, 0)
+				addPoint(bucket.languages, language, part.seconds, 0)
+			}
+			project.lastActive = until
+			creditGit(project, delta, 0, until)
+		}
+		lastActiveTime = until
+	}
+
+	// Простой копится отдельно и только пока открыт редактор
+	function creditIdle(until: number) {
+		if (idleSince === null) return
+		if (timeTarget && until > idleSince) {
+			const fileStat = store.files[timeTarget.file.key]
+			for (const part of splitByDay(idleSince, until, config.dayStartHour)) {
+				for (const dailyStat of dailyStatsFor(part.key, fileStat, timeTarget.language)) {
+					dailyStat.idleTime = (dailyStat.idleTime || 0) + part.seconds
+				}
+			}
+		}
+		idleSince = until
+	}
+
+	function checkIdle(t: number) {
+		if (idleSince !== null) return
+		const idleStart = lastActivityTime + idleTimeoutMs()
+		if (t <= idleStart) return
+		// Засчитываем время только до истечения таймаута, остальное — простой
+		creditTime(idleStart)
+		closeSession()
+		idleSince = idleStart
+		updateStatusBar()
+		save()
+	}
+
+	function closeSession() {
+		if (!currentSession) return
+		if (isEmptySession(currentSession)) {
+			const closed = currentSession
+			sessions = sessions.filter(s => s !== closed)
+			storage.touch('sessions', closed.id)
+		}
+		currentSession = undefined
+	}
+
+	function markActivity() {
+		const t = now()
+		checkIdle(t)
+		if (idleSince !== null) {
+			creditIdle(t)
+			idleSince = null
+			lastActiveTime = t
+			updateStatusBar()
+		}
+		lastActivityTime = t
+		if (!currentSession) {
+			currentSession = createSession(
+				uid(),
+				t,
+				vscode.workspace.name || 'Без рабочей области'
+			)
+			sessions.push(currentSession)
+		}
+		currentSession.end = Math.max(currentSession.end, t)
+		storage.touch('sessions', currentSession.id)
+	}
+
+	// Время ячейки блокнота идёт файлу блокнота, но языку самой ячейки
+	function documentTarget(doc: vscode.TextDocument) {
+		const file = trackedDocument(doc)
+		return file && { file, language: doc.languageId || 'unknown' }
+	}
+
+	// Куда идёт время: текстовый редактор (в том числе ячейка блокнота), блокнот
+	// без редактируемой ячейки — по языку выделенной ячейки, пользовательский редактор
+	function currentTimeTarget() {
+		const editor = vscode.window.activeTextEditor
+		if (editor) return documentTarget(editor.document)
+		const notebookEditor = vscode.window.activeNotebookEditor
+		if (notebookEditor) {
+			const { notebook, selection } = notebookEditor
+			if (notebook.cellCount === 0) return undefined
+			const cell = notebook.cellAt(Math.min(selection.start, notebook.cellCount - 1))
+			return documentTarget(cell.document)
+		}
+		const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input
+		if (input instanceof vscode.TabInputCustom && !exclude.isExcluded(input.uri)) {
+			const file = resolveCustomEditor(input.uri)
+			return file && { file, language: file.language }
+		}
+		return undefined
+	}
+
+	function setTimeTarget(target: typeof timeTarget) {
+		const t = now()
+		checkIdle(t)
+		if (idleSince === null) {
+			creditTime(t)
+		} else {
+			creditIdle(t)
 		}
 		lastActiveTime = t
-		lastActiveEditorUri = editor?.document.uri.fsPath || null
+		timeTarget = target
 		save()
 	}
 
-	setActiveEditor(vscode.window.activeTextEditor)
+	// Редактор, получивший ввод, становится целью времени, даже если он не активный:
+	// например, правка в соседней панели без переключения фокуса
+	function focusInput(doc: vscode.TextDocument) {
+		const target = documentTarget(doc)
+		if (!target) return
+		if (target.file.key === timeTarget?.file.key && target.language === timeTarget.language) return
+		setTimeTarget(target)
+	}
+
+	updateStatusBar()
+	setTimeTarget(currentTimeTarget())
 
 	context.subscriptions.push(
-		vscode.window.onDidChangeActiveTextEditor(editor => {
-			setActiveEditor(editor)
+		vscode.window.onDidChangeActiveTextEditor(() => {
+			markActivity()
+			setTimeTarget(currentTimeTarget())
+		}),
+		vscode.window.onDidChangeActiveNotebookEditor(() => {
+			markActivity()
+			setTimeTarget(currentTimeTarget())
+		}),
+		// Переход между ячейками блокнота меняет язык
+		vscode.window.onDidChangeNotebookEditorSelection(() => {
+			markActivity()
+			setTimeTarget(currentTimeTarget())
+		}),
+		// Пользовательские редакторы не меняют activeTextEditor — следим за вкладками
+		vscode.window.tabGroups.onDidChangeTabs(() => {
+			if (vscode.window.activeTextEditor || vscode.window.activeNotebookEditor) return
+			const target = currentTimeTarget()
+			if (target?.file.key === timeTarget?.file.key) return
+			markActivity()
+			setTimeTarget(target)
 		})
 	)
 
 	context.subscriptions.push(
 		vscode.window.onDidChangeWindowState(state => {
 			if (!state.focused) {
-				setActiveEditor(undefined)
+				setTimeTarget(undefined)
 			} else {
-				setActiveEditor(vscode.window.activeTextEditor)
+				markActivity()
+				setTimeTarget(currentTimeTarget())
 			}
 		})
 	)
 
+	context.subscriptions.push(
+		vscode.window.onDidChangeTextEditorSelection(e => {
+			markActivity()
+			updateCursor(e.textEditor.document, e.selections)
+			if (
+				e.kind === vscode.TextEditorSelectionChangeKind.Keyboard ||
+				e.kind === vscode.TextEditorSelectionChangeKind.Mouse
+			) {
+				focusInput(e.textEditor.document)
+			}
+		}),
+		vscode.window.onDidChangeTextEditorVisibleRanges(() => markActivity()),
+		vscode.window.onDidChangeActiveTerminal(() => markActivity()),
+		// Срабатывает только при первом вводе в терминал
+		vscode.window.onDidChangeTerminalState(() => markActivity())
+	)
+	// Запуск и завершение команд видны при интеграции оболочки (VS Code 1.93+)
+	if (vscode.window.onDidStartTerminalShellExecution) {
+		context.subscriptions.push(
+			vscode.window.onDidStartTerminalShellExecution(() => markActivity()),
+			vscode.window.onDidEndTerminalShellExecution(() => markActivity())
+		)
+	}
+
+	const idleInterval = setInterval(() => {
+		const t = now()
+		checkIdle(t)
+		// Засчитываем идущий отрезок, чтобы время в строке состояния росло без пауз
+		if (idleSince === null) creditTime(t)
+		updateStatusBar()
+		remindBreak(t)
+	}, 15 * 1000)
+
+	// Репозитории, в которых работали в этом окне: их HEAD проверяется по таймеру
+	const watchedRepos = new Set<string>()
+
+	function gitStats(): GitStats {
+		if (!store.git) store.git = { branches: {}, commits: [], repos: {} }
+		return store.git
+	}
+
+	// Состояние репозитория; при первом появлении запоминаем HEAD как точку отсчёта
+	function ensureRepoState(root: string): RepoState | undefined {
+		watchedRepos.add(root)
+		const git = gitStats()
+		if (!git.repos[root]) {
+			const head = readHead(root)
+			if (!head) return undefined
+			git.repos[root] = {
+				head: head.commit,
+				branch: branchLabel(head),
+				seconds: 0,
+				chars: 0,
+				since: now(),
+			}
+		}
+		storage.touch('repos', root)
+		return git.repos[root]
+	}
+
+	function ensureBranchStat(repo: string, branch: string, t: number): BranchStat {
+		const git = gitStats()
+		const key = repo + '#' + branch
+		if (!git.branches[key]) {
+			git.branches[key] = {
+				repo,
+				branch,
+				timeSeconds: 0,
+				chars: 0,
+				commits: 0,
+				firstSeen: t,
+				lastActive: t,
+			}
+		}
+		storage.touch('branches', key)
+		return git.branches[key]
+	}
+
+	// Время и символы в репозитории идут на текущую ветку и в счётчик до следующего коммита
+	function creditGit(project: ProjectStat, seconds: number, chars: number, t: number) {
+		if (project.kind !== 'git') return
+		const repo = ensureRepoState(project.id)
+		if (!repo) return
+		repo.seconds += seconds
+		repo.chars += chars
+		const branch = ensureBranchStat(project.id, repo.branch, t)
+		branch.timeSeconds += seconds
+		branch.chars += chars
+		branch.lastActive = t
+	}
+
+	// Репозиторий могут отслеживать несколько окон. Перед записью коммита
+	// подтягиваем их изменения: если другое окно уже записало этот коммит и
+	// обнулило работу до него, HEAD или список коммитов это покажут
+	function checkRepo(root: string) {
+		const head = readHead(root)
+		const known = gitStats().repos[root]
+		if (!head || !known) return
+		// git checkout -b и git switch -c меняют ветку, не трогая коммит
+		if (head.commit === known.head && branchLabel(head) === known.branch) return
+		save(true)
+		// Сохранение могло перечитать данные — берём состояние заново
+		const repo = gitStats().repos[root]
+		const branch = branchLabel(head)
+		if (!repo || (head.commit === repo.head && branch === repo.branch)) return
+		storage.touch('repos', root)
+		// Досчитываем текущий отрезок: работа до смены ветки или коммита остаётся
+		// прежней ветке и попадает в коммит
+		const t = now()
+		checkIdle(t)
+		if (idleSince === null) creditTime(t)
+		// Коммит записывается на ветку, на которую указывает HEAD после него
+		repo.branch = branch
+		// HEAD двигают и checkout, pull, reset, rebase — коммитом считаем только запись «commit»
+		const entry = head.commit !== repo.head ? readLastReflogEntry(root) : undefined
+		const isNewCommit =
+			entry !== undefined &&
+			entry.newCommit === head.commit &&
+			isCommitEntry(entry) &&
+			!gitStats().commits.some(c => c.id === entry.newCommit)
+		if (entry && isNewCommit) recordCommit(root, repo, entry)
+		repo.head = head.commit
+	}
+
+	function recordCommit(root: string, repo: RepoState, entry: ReflogEntry) {
+		const git = gitStats()
+		const commit: CommitRecord = {
+			id: entry.newCommit,
+			repo: root,
+			branch: repo.branch,
+			message: commitSubject(entry),
+			timestamp: entry.timestamp,
+			seconds: Math.round(repo.seconds),
+			chars: repo.chars,
+			since: repo.since,
+		}
+		git.commits.push(commit)
+		storage.touch('commits', commit.id)
+		if (git.commits.length > MAX_COMMITS) {
+			for (const removed of git.commits.splice(0, git.commits.length - MAX_COMMITS)) {
+				storage.touch('commits', removed.id)
+			}
+		}
+		ensureBranchStat(root, repo.branch, entry.timestamp).commits += 1
+		repo.seconds = 0
+		repo.chars = 0
+		repo.since = entry.timestamp
+		output.appendLine(
+			`Commit ${commit.id.slice(0, 7)} on ${commit.branch}: ${commit.seconds}s, ${commit.chars} chars`
+		)
+		// Сразу в журнал: другие окна проверят по нему, записан ли коммит
+		save(true)
+	}
+
+	const gitInterval = setInterval(() => {
+		for (const root of watchedRepos) checkRepo(root)
+	}, GIT_POLL_MS)
+
 	let lastChangeTime = 0
+	// Документы, которые сейчас сохраняются, и начало сохранения: правки в этот
+	// момент делают format on save и code actions. Неудачное или отменённое
+	// сохранение onDidSave не вызывает, поэтому отметка истекает сама
+	const savingDocs = new Map<string, number>()
+	// Слово, набранное вручную перед последним изменением, — для распознавания сниппетов
+	let typedWord = { doc: '', word: '' }
+	// Единственный пустой курсор документа до изменения; событие выделения
+	// после правки приходит позже самой правки
+	let cursor: { doc: string; position: vscode.Position } | undefined
+	// Последнее нажатие клавиши: ввод или удаление одного символа
+	let lastKeystroke = { doc: '', time: 0 }
 
 	context.subscriptions.push(
-		vscode.workspace.onDidChangeTextDocument(e => {
-			// Игнорируем неактивные документы
-			if (!e.document.isDirty) return
-			
-			const doc = e.document
-			const filePath = doc.uri.fsPath
-			
-			// Игнорируем большие изменения (больше 5000 символов за раз)
-			let totalChanges = 0
-			for (const ch of e.contentChanges) {
-				totalChanges += ch.text.length
+		vscode.workspace.onWillSaveTextDocument(e => {
+			savingDocs.set(e.document.uri.toString(), now())
+		}),
+		vscode.workspace.onDidSaveTextDocument(doc => {
+			savingDocs.delete(doc.uri.toString())
+		})
+	)
+
+	async function readClipboard(): Promise<string | undefined> {
+		try {
+			return await vscode.env.clipboard.readText()
+		} catch {
+			return undefined
+		}
+	}
+
+	function updateTypedWord(
+		docKey: string,
+		changes: readonly vscode.TextDocumentContentChangeEvent[]
+	) {
+		const word = typedWord.doc === docKey ? typedWord.word : ''
+		const ch = changes.length === 1 ? changes[0] : undefined
+		if (ch && ch.rangeLength === 0 && /^[\w$]$/.test(ch.text)) {
+			typedWord = { doc: docKey, word: word + ch.text }
+		} else if (ch && ch.rangeLength === 1 && ch.text === '') {
+			typedWord = { doc: docKey, word: word.slice(0, -1) }
+		} else {
+			typedWord = { doc: docKey, word: '' }
+		}
+	}
+
+	function updateCursor(doc: vscode.TextDocument, selections: readonly vscode.Selection[]) {
+		cursor =
+			selections.length === 1 && selections[0].isEmpty
+				? { doc: doc.uri.toString(), position: selections[0].active }
+				: undefined
+	}
+
+	function touchesCursor(docKey: string, range: vscode.Range) {
+		return (
+			cursor?.doc === docKey &&
+			range.isSingleLine &&
+			range.start.line === cursor.position.line &&
+			range.start.character <= cursor.position.character &&
+			range.end.character >= cursor.position.character
+		)
+	}
+
+	function isKeystroke(changes: readonly vscode.TextDocumentContentChangeEvent[]) {
+		if (changes.length !== 1) return false
+		const ch = changes[0]
+		return (ch.rangeLength === 0 && ch.text.length === 1) || (ch.rangeLength === 1 && ch.text === '')
+	}
+
+	async function handleDocumentChange(e: vscode.TextDocumentChangeEvent) {
+		// Игнорируем неактивные документы; отмена до сохранённого состояния делает документ чистым
+		if (!e.document.isDirty && !e.reason) return
+		if (e.contentChanges.length === 0) return
+		const tracked = trackedDocument(e.document)
+		if (!tracked) return
+		markActivity()
+
+		const doc = e.document
+		const filePath = tracked.key
+		
+		// Крупные изменения не отбрасываем: правило bulk-change относит их к массовым
+		let totalChanges = 0
+		for (const ch of e.contentChanges) {
+			totalChanges += ch.text.length
+		}
+
+		const tNow = now()
+		const docKey = doc.uri.toString()
+		const sinceLastChange = tNow - lastChangeTime
+		lastChangeTime = tNow
+
+		// Контекст события фиксируем до чтения буфера обмена
+		const reason =
+			e.reason === vscode.TextDocumentChangeReason.Undo
+				? 'undo'
+				: e.reason === vscode.TextDocumentChangeReason.Redo
+				? 'redo'
+				: undefined
+		const saveStart = savingDocs.get(docKey)
+		const duringSave = saveStart !== undefined && tNow - saveStart < SAVE_WINDOW_MS
+		const word = typedWord.doc === docKey ? typedWord.word : ''
+		updateTypedWord(docKey, e.contentChanges)
+		const sinceTyping = lastKeystroke.doc === docKey ? tNow - lastKeystroke.time : Infinity
+		if (!reason && isKeystroke(e.contentChanges)) lastKeystroke = { doc: docKey, time: tNow }
+		const atCursor = e.contentChanges.map(ch => touchesCursor(docKey, ch.range))
+		const sameText = e.contentChanges.every(ch => ch.text === e.contentChanges[0].text)
+
+		// Буфер обмена нужен только для многосимвольных вставок; обычный набор его не читает
+		const clipboard = e.contentChanges.some(ch => ch.text.length > 1)
+			? await readClipboard()
+			: undefined
+
+		// У ячейки блокнота язык свой, у файла блокнота — тип блокнота
+		const language = doc.languageId || 'unknown'
+		const folder = getFolderFromUri(tracked.uri)
+		const { fileStat, project } = ensureTrackedFile(tracked)
+		project.lastActive = tNow
+		const langStat = ensureLanguageStat(language)
+
+		// Получаем статистику за текущий день: общую, проекта и языка
+		const today = dayKey(tNow, config.dayStartHour)
+		const dailyTargets = dailyStatsFor(today, fileStat, language)
+		const hour = new Date(tNow).getHours()
+		
+		const classifierOptions = config.classifier
+		let bulk: BulkChangeRecord | undefined
+		let addedChars = 0
+
+		const churnTargets = [
+			ensureChurn(fileStat),
+			ensureChurn(langStat),
+			...dailyTargets.map(ensureChurn),
+		]
+		if (reason) {
+			for (const churn of churnTargets) churn.undoRedo.count += 1
+		}
+
+		for (const [i, ch] of e.contentChanges.entries()) {
+			const text = ch.text || ''
+			const chars = text.length
+			// Баланс строк — переводы строк во вставке против строк заменённого диапазона
+			const addedLines = (text.match(/\r\n|\r|\n/g) || []).length
+			const removedLines = ch.range.end.line - ch.range.start.line
+
+			for (const churn of churnTargets) {
+				churn.removedChars += ch.rangeLength
+				churn.removedLines += removedLines
+				churn.addedLines = (churn.addedLines || 0) + addedLines
+				if (reason) {
+					churn.undoRedo.addedChars += chars
+					churn.undoRedo.removedChars += ch.rangeLength
+				}
 			}
-			if (totalChanges > 5000) {
-				return // Игнорируем массовые изменения
+			if (chars === 0) continue
+			// Строки, которых коснулась вставка: у статистик и фрагментов одинаково
+			const lines = addedLines + 1
+
+			const change: ChangeEvent = {
+				text,
+				rangeLength: ch.rangeLength,
+				multiLineRange: ch.range.start.line !== ch.range.end.line,
+				changeCount: e.contentChanges.length,
+				eventChars: totalChanges,
+				sameTextInAllChanges: sameText,
+				reason,
+				sinceLastChange,
+				duringSave,
+				clipboard,
+				typedWord: word,
+				atCursor: atCursor[i],
+				sinceTyping,
 			}
-			
-			const language = doc.languageId || 'unknown'
-			const folder = getFolderFromUri(doc.uri)
-			const fileStat = ensureFileStat(filePath, language, folder)
-			const langStat = ensureLanguageStat(language)
-			
-			// Получаем статистику за текущий день
-			const dateStr = new Date().toISOString().split('T')[0]
-			const dailyStat = ensureDailyStat(dateStr)
-
-			const tNow = now()
-			
-			for (const ch of e.contentChanges) {
-				const text = ch.text || ''
-				const chars = text.length
-				if (chars === 0) continue
-				
-				const lines = text.split(/\r\n|\r|\n/).length
-
-				// УПРОЩЕННАЯ классификация
-				let cls: Classification = 'manual'
-				if (chars >= 100 && ch.rangeLength === 0) {
-					cls = 'paste'
-				} else if (chars >= 50) {
-					const gap = tNow - lastChangeTime
-					if (gap <= 100) {
-						cls = 'ai'
-					} else {
-						cls = 'manual'
+			const cls = classifyChange(change, classifierOptions)
+			if (cls === 'bulk') {
+				if (!bulk) {
+					bulk = {
+						id: uid(),
+						file: filePath,
+						folder,
+						language,
+						chars: 0,
+						lines: 0,
+						timestamp: tNow,
+						origin: classifyChange(
+							change,
+							classifierOptions,
+							DEFAULT_RULES.filter(rule => rule !== bulkChangeRule)
+						),
 					}
-				} else {
-					cls = 'manual'
 				}
+				bulk.chars += chars
+				bulk.lines += lines
+			}
 
-				// Обновляем статистику файла
-				fileStat.chars += chars
-				fileStat.lines += lines
-				fileStat.byClassification[cls].chars += chars
-				fileStat.byClassification[cls].count += 1
+			// Обновляем статистику файла
+			addedChars += chars
+			fileStat.chars += chars
+			fileStat.lines += lines
+			fileStat.byClassification[cls].chars += chars
+			fileStat.byClassification[cls].count += 1
+			fileStat.lastActive = tNow
 
-				// Обновляем статистику языка
-				langStat.chars += chars
-				langStat.lines += lines
-				langStat.byClassification[cls].chars += chars
-				langStat.byClassification[cls].count += 1
+			if (currentSession) {
+				addSessionChars(currentSession, filePath, language, cls, chars, tNow)
+			}
+			if (config.snippets.enabled && (cls === 'paste' || cls === 'ai')) {
+				recordSnippet({
+					id: uid(),
+					file: filePath,
+					folder,
+					language,
+					text: text.slice(0, config.snippets.maxChars),
+					classification: cls,
+					timestamp: tNow,
+					chars,
+					lines,
+					line: ch.range.start.line,
+					character: ch.range.start.character,
+					truncated: chars > config.snippets.maxChars || undefined,
+				})
+			}
 
-				// Обновляем дневную статистику
+			// Обновляем статистику языка
+			langStat.chars += chars
+			langStat.lines += lines
+			langStat.byClassification[cls].chars += chars
+			langStat.byClassification[cls].count += 1
+
+			// Обновляем дневную статистику
+			for (const dailyStat of dailyTargets) {
 				dailyStat.totalChars += chars
+				dailyStat.lines = (dailyStat.lines || 0) + lines
 				dailyStat.byClassification[cls].chars += chars
 				dailyStat.byClassification[cls].count += 1
-
-				lastChangeTime = tNow
+				ensureHours(dailyStat).chars[hour] += chars
 			}
+		}
 
-			save()
+		creditGit(project, 0, addedChars, tNow)
+		if (addedChars > 0) {
+			const bucket = ensureHistoryBucket(today)
+			addPoint(bucket.files, filePath, 0, addedChars)
+			addPoint(bucket.languages, language, 0, addedChars)
+		}
+
+		if (bulk) {
+			recordBulkChange(bulk)
+			output.appendLine(
+				`Bulk change: ${bulk.chars} chars in ${filePath} (origin: ${bulk.origin})`
+			)
+		}
+
+		save()
+	}
+
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeTextDocument(e => {
+			void handleDocumentChange(e)
 		})
 	)
 
+	function recordBulkChange(record: BulkChangeRecord) {
+		if (!store.bulkChanges) store.bulkChanges = []
+		store.bulkChanges.push(record)
+		storage.touch('bulkChanges', record.id)
+		if (store.bulkChanges.length > MAX_BULK_CHANGES) {
+			for (const removed of store.bulkChanges.splice(
+				0,
+				store.bulkChanges.length - MAX_BULK_CHANGES
+			)) {
+				storage.touch('bulkChanges', removed.id)
+			}
+		}
+	}
+
+	function recordSnippet(snippet: SnippetRecord) {
+		snippets.push(snippet)
+		storage.touch('snippets', snippet.id)
+		if (snippets.length > config.snippets.maxEntries) {
+			for (const removed of snippets.splice(0, snippets.length - config.snippets.maxEntries)) {
+				storage.touch('snippets', removed.id)
+			}
+		}
+	}
+
+	async function openSnippet(id: string) {
+		const snippet = snippets.find(s => s.id === id)
+		if (!snippet) return
+		try {
+			const doc = await vscode.workspace.openTextDocument(uriFromKey(snippet.file))
+			const start = new vscode.Position(snippet.line ?? 0, snippet.character ?? 0)
+			let end = start
+			// Если текст сохранён целиком, выделяем всю вставку
+			if (!snippet.truncated) {
+				const parts = snippet.text.split(/\r\n|\r|\n/)
+				end = new vscode.Position(
+					start.line + parts.length - 1,
+					(parts.length > 1 ? 0 : start.character) + parts[parts.length - 1].length
+				)
+			}
+			await vscode.window.showTextDocument(doc, {
+				selection: doc.validateRange(new vscode.Range(start, end)),
+				preview: false,
+			})
+		} catch (err) {
+			output.appendLine(`Cannot open snippet location: ${err}`)
+			void vscode.window.showWarningMessage(
+				`Не удалось открыть ${displayName(snippet.file)}: файл недоступен`
+			)
+		}
+	}
+
+	// Файл из списков панели открывается в своём редакторе: текстовом, блокноте
+	// или пользовательском. Открываются только учтённые файлы
+	async function openFile(file: string) {
+		if (!store.files[file]) return
+		const uri = uriFromKey(file)
+		try {
+			if (uri.scheme !== 'untitled') await vscode.workspace.fs.stat(uri)
+			await vscode.commands.executeCommand('vscode.open', uri, { preview: false })
+		} catch (err) {
+			output.appendLine(`Cannot open file: ${err}`)
+			void vscode.window.showWarningMessage(
+				`Не удалось открыть ${displayName(file)}: файл недоступен`
+			)
+		}
+	}
+
+	// Каждое удаление отмечается через storage.touch: иначе запись вернётся
+	// из журнала или снимка окна, которое сожмёт хранилище раньше
 	function cleanupOldData() {
-		const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000
+		const cutoff = Date.now() - config.retentionDays * 24 * 60 * 60 * 1000
 		
-		// Очищаем старые дневные статистики (старше 90 дней)
+		// Очищаем старые дневные статистики (старше codingTracker.retentionDays)
 		const daysToRemove: string[] = []
 		for (const [date, stat] of Object.entries(store.dailyStats)) {
-			const dateObj = new Date(date)
-			if (dateObj.getTime() < Date.now() - 90 * 24 * 60 * 60 * 1000) {
+			if (dayStart(date, config.dayStartHour) < cutoff) {
 				daysToRemove.push(date)
 			}
 		}
 		for (const date of daysToRemove) {
+			storage.touch('dailyStats', date)
 			delete store.dailyStats[date]
 		}
+		for (const [id, project] of Object.entries(store.projects || {})) {
+			for (const date of Object.keys(project.dailyStats)) {
+				if (dayStart(date, config.dayStartHour) >= cutoff) continue
+				storage.touch('projectDays', projectDayKey(id, date))
+				delete project.dailyStats[date]
+			}
+		}
+
+		removeWhere(store.bulkChanges, 'bulkChanges', b => b.timestamp < cutoff, storage.touch)
+		removeWhere(store.focusSessions, 'focusSessions', f => f.end < cutoff, storage.touch)
+
+		if (store.git) {
+			removeWhere(store.git.commits, 'commits', c => c.timestamp < cutoff, storage.touch)
+			for (const [key, branch] of Object.entries(store.git.branches)) {
+				if (branch.lastActive >= cutoff) continue
+				storage.touch('branches', key)
+				delete store.git.branches[key]
+			}
+		}
+
+		// История не удаляется, а сворачивается в недели и месяцы
+		const today = dayKey(Date.now(), config.dayStartHour)
+		compactHistory(store.history || {}, today, config.history, key => storage.touch('history', key))
+
+		// Сессии храним столько же, сколько дневную статистику
+		for (const s of sessions) {
+			if (s.end < cutoff && s !== currentSession) storage.touch('sessions', s.id)
+		}
+		sessions = pruneSessions(sessions, cutoff)
+		if (currentSession && !sessions.includes(currentSession)) {
+			sessions.push(currentSession)
+		}
 		
 		// Очищаем пустые файлы
 		const filesToRemove: string[] = []
 		for (const [path, stat] of Object.entries(store.files)) {
-			if (stat.chars === 0 && stat.timeSeconds < 60) {
+			if (stat.chars === 0 && stat.timeSeconds < config.emptyFilePurgeSeconds) {
 				filesToRemove.push(path)
 			}
 		}
 		for (const path of filesToRemove) {
+			storage.touch('files', path)
 			delete store.files[path]
 		}
 		
 		// Очищаем языки без данных
 		const langsToRemove: string[] = []
 		for (const [lang, stat] of Object.entries(store.languages)) {
-			if (stat.chars === 0 && stat.timeSeconds < 60) {
+			if (stat.chars === 0 && stat.timeSeconds < config.emptyFilePurgeSeconds) {
 				langsToRemove.push(lang)
 			}
 		}
 		for (const lang of langsToRemove) {
+			storage.touch('languages', lang)
 			delete store.languages[lang]
 		}
+
+		// Проекты без файлов и без дневной статистики больше ничего не показывают
+		if (store.projects) {
+			const usedProjects = new Set(Object.values(store.files).map(f => f.project))
+			for (const [id, project] of Object.entries(store.projects)) {
+				if (!usedProjects.has(id) && Object.keys(project.dailyStats).length === 0) {
+					storage.touch('projects', id)
+					delete store.projects[id]
+				}
+			}
+		}
 		
-		save(true)
+		// Удалений много — вместо журнала сразу пишем новый снимок
+		save(true, true)
 	}
 
 	// Очистка старых данных при старте
 	setTimeout(() => cleanupOldData(), 30000)
 
 	let panel: vscode.WebviewPanel | undefined = undefined
+	// Проект, выбранный в панели; undefined — все проекты
+	let selectedProject: string | undefined
+	// Язык, выбранный в панели; undefined — все языки
+	let selectedLanguage: string | undefined
+	// Период, выбранный в панели; undefined — последние DEFAULT_PERIOD_DAYS дней
+	let selectedRange: DayRange | undefined
+	let comparePeriods = false
 
 	function createOrShowPanel() {
 		if (panel) {
@@ -332,17 +1557,36 @@ export function activate(context: vscode.ExtensionContext) {
 			{
 				enableScripts: true,
 				retainContextWhenHidden: true,
+				localResourceRoots: dashboardResourceRoots(context.extensionUri),
 			}
 		)
 
-		panel.webview.html = getWebviewContent(panel.webview, context.extensionUri)
+		panel.webview.html = getDashboardHtml(
+			panel.webview,
+			context.extensionUri,
+			crypto.randomBytes(16).toString('base64')
+		)
 		panel.onDidDispose(() => {
 			panel = undefined
 		})
 
-		panel.webview.onDidReceiveMessage(msg => {
+		panel.webview.onDidReceiveMessage((msg: WebviewMessage) => {
 			if (msg.command === 'requestData') {
+				if (msg.project !== undefined) selectedProject = msg.project || undefined
+				if (msg.language !== undefined) selectedLanguage = msg.language || undefined
+				if (msg.range !== undefined) selectedRange = msg.range ? normalizeRange(msg.range) : undefined
+				if (msg.compare !== undefined) comparePeriods = msg.compare
 				sendDataToPanel()
+			} else if (msg.command === 'requestDay') {
+				if (!isDayKey(msg.date)) return
+				const message: HostMessage = { command: 'day', payload: buildDayDetails(msg.date) }
+				void panel?.webview.postMessage(message)
+			} else if (msg.command === 'openSnippet') {
+				void openSnippet(msg.id)
+			} else if (msg.command === 'openFile') {
+				void openFile(msg.file)
+			} else if (msg.command === 'chartError') {
+				output.appendLine(`Chart ${msg.chart} shown as a table: ${msg.error}`)
 			}
 		})
 
@@ -355,16 +1599,20 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	)
 
-	function startOfDay(ts: number) {
-		const d = new Date(ts)
-		d.setHours(0, 0, 0, 0)
-		return d.getTime()
-	}
+	context.subscriptions.push(
+		vscode.commands.registerCommand('codeTime.exportPDF', () => exportReport()),
+		vscode.commands.registerCommand('codeTime.exportJSON', () => exportJson()),
+		vscode.commands.registerCommand('codeTime.exportCSV', () => exportCsv()),
+		vscode.commands.registerCommand('codeTime.importJSON', () => importJson()),
+		vscode.commands.registerCommand('codeTime.resetData', () => resetAllData()),
+		vscode.commands.registerCommand('codeTime.deleteRange', () => deleteRange()),
+		vscode.commands.registerCommand('codeTime.forgetData', () => forgetData())
+	)
 
-	function buildTimeWindows() {
+	function buildTimeWindows(agg: Aggregate = store) {
 		const t = now()
-		const today = startOfDay(t)
-		
+		const today = startOfDay(t, config.dayStartHour)
+
 		const windows = [
 			{
 				id: 'last12h',
@@ -373,13 +1621,10 @@ export function activate(context: vscode.ExtensionContext) {
 			},
 			{ id: 'today', from: today, label: 'Сегодня' },
 			{ id: 'week', from: t - 7 * 24 * 3600 * 1000, label: 'За неделю' },
-			{ id: 'month', from: startOfMonth(t), label: 'За месяц' },
+			{ id: 'month', from: startOfMonth(t, config.dayStartHour), label: 'За месяц' },
 		]
 
-		const results: Record<
-			string,
-			{ seconds: number; chars: number; lines: number }
-		> = {}
+		const results: Record<string, TimeWindowStat> = {}
 		
 		// Считаем статистику за каждый период
 		for (const w of windows) {
@@ -387,11 +1632,22 @@ export function activate(context: vscode.ExtensionContext) {
 			let time = 0
 			
 			// Проходим по всем дням и суммируем данные
-			for (const [dateStr, dayStat] of Object.entries(store.dailyStats)) {
-				const date = new Date(dateStr).getTime()
+			for (const [dateStr, dayStat] of Object.entries(agg.dailyStats)) {
+				const date = dayStart(dateStr, config.dayStartHour)
 				if (date >= w.from) {
 					chars += dayStat.totalChars
 					time += dayStat.totalTime
+				} else if (
+					dayStat.hours &&
+					dayStart(shiftDayKey(dateStr, 1), config.dayStartHour) > w.from
+				) {
+					// День начался раньше окна — берём только попавшие в окно часы
+					for (let h = 0; h < 24; h++) {
+						if (hourStart(dateStr, h, config.dayStartHour) >= w.from) {
+							chars += dayStat.hours.chars[h]
+							time += dayStat.hours.time[h]
+						}
+					}
 				}
 			}
 			
@@ -408,33 +1664,29 @@ export function activate(context: vscode.ExtensionContext) {
 		return results
 	}
 
-	function buildExtraStats() {
-		const DAY_MS = 24 * 3600 * 1000
-		const today = startOfDay(now())
+	function buildExtraStats(agg: Aggregate = store): ExtraStats {
+		const today = dayKey(now(), config.dayStartHour)
 		
 		// Собираем активные дни из дневной статистики
-		const activityDays: Set<number> = new Set()
+		const activityDays: Set<string> = new Set()
 		const weekdayCounts = Array(7).fill(0)
 		
-		for (const [dateStr, dayStat] of Object.entries(store.dailyStats)) {
+		for (const [dateStr, dayStat] of Object.entries(agg.dailyStats)) {
 			if (dayStat.totalChars > 0) {
-				const date = new Date(dateStr).getTime()
-				activityDays.add(date)
-				
-				const d = new Date(dateStr)
-				weekdayCounts[d.getDay()]++
+				activityDays.add(dateStr)
+				weekdayCounts[weekdayOfKey(dateStr)]++
 			}
 		}
 
-		// Вычисляем серии
+		// Вычисляем серии (ключи ГГГГ-ММ-ДД сортируются как строки)
 		let currentStreak = 0
 		let maxStreak = 0
-		let lastDay = 0
+		let lastDay = ''
 		
-		const uniqueDays = Array.from(activityDays).sort((a, b) => a - b)
+		const uniqueDays = Array.from(activityDays).sort()
 
 		for (const day of uniqueDays) {
-			if (day === lastDay + DAY_MS || lastDay === 0) {
+			if (lastDay === '' || day === shiftDayKey(lastDay, 1)) {
 				currentStreak++
 			} else if (day !== lastDay) {
 				maxStreak = Math.max(maxStreak, currentStreak)
@@ -445,9 +1697,8 @@ export function activate(context: vscode.ExtensionContext) {
 		maxStreak = Math.max(maxStreak, currentStreak)
 
 		// Корректируем текущую серию
-		const yesterday = today - DAY_MS
+		const yesterday = shiftDayKey(today, -1)
 		const isActiveToday = activityDays.has(today)
-		const isActiveYesterday = activityDays.has(yesterday)
 
 		if (lastDay === today) {
 			// Уже корректно
@@ -457,7 +1708,7 @@ export function activate(context: vscode.ExtensionContext) {
 				let currentDay = yesterday
 				while (activityDays.has(currentDay)) {
 					tempStreak++
-					currentDay -= DAY_MS
+					currentDay = shiftDayKey(currentDay, -1)
 				}
 				currentStreak = tempStreak
 			}
@@ -467,10 +1718,10 @@ export function activate(context: vscode.ExtensionContext) {
 
 		// Считаем общее количество изменений
 		let totalEdits = 0
-		for (const lang of Object.values(store.languages)) {
-			totalEdits += lang.byClassification.ai.count + 
-						  lang.byClassification.paste.count + 
-						  lang.byClassification.manual.count
+		for (const lang of Object.values(agg.languages)) {
+			for (const cls of CLASSIFICATIONS) {
+				totalEdits += lang.byClassification[cls].count
+			}
 		}
 
 		return {
@@ -481,25 +1732,22 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	}
 
-	function buildDailyStats(): DailyStat[] {
+	function buildDailyStats(agg: Aggregate = store): DailyStat[] {
 		// Просто возвращаем отсортированные дневные статистики
-		return Object.values(store.dailyStats).sort(
-			(a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+		return Object.values(agg.dailyStats).sort((a, b) =>
+			b.date.localeCompare(a.date)
 		)
 	}
 
-	function buildHeatmapData() {
-		const heatmapData: { date: string; value: number }[] = []
-		const today = new Date()
-		today.setHours(0, 0, 0, 0)
+	function buildHeatmapData(agg: Aggregate = store): HeatmapDay[] {
+		const heatmapData: HeatmapDay[] = []
+		const today = dayKey(now(), config.dayStartHour)
 
-		// Создаем данные для последних 90 дней
-		for (let i = 89; i >= 0; i--) {
-			const date = new Date(today)
-			date.setDate(today.getDate() - i)
-			const dateStr = date.toISOString().split('T')[0]
+		// Создаем данные для последних codingTracker.heatmapDays дней
+		for (let i = config.heatmapDays - 1; i >= 0; i--) {
+			const dateStr = shiftDayKey(today, -i)
 
-			const dayStat = store.dailyStats[dateStr]
+			const dayStat = agg.dailyStats[dateStr]
 			const value = dayStat ? dayStat.totalChars : 0
 
 			heatmapData.push({
@@ -511,40 +1759,747 @@ export function activate(context: vscode.ExtensionContext) {
 		return heatmapData
 	}
 
+	// Строки — дни недели по календарю, как часы на шкале: часы до
+	// codingTracker.dayStartHour принадлежат дню накануне, но на часах это
+	// уже следующая дата и следующая строка
+	function buildHourlyHeatmap(
+		agg: Aggregate = store,
+		days = config.heatmapDays
+	): HourlyHeatmap {
+		const time = Array.from({ length: 7 }, () => Array(24).fill(0))
+		const chars = Array.from({ length: 7 }, () => Array(24).fill(0))
+		const today = dayKey(now(), config.dayStartHour)
+
+		for (let i = days - 1; i >= 0; i--) {
+			const dateStr = shiftDayKey(today, -i)
+			const hours = agg.dailyStats[dateStr]?.hours
+			if (!hours) continue
+			const weekday = weekdayOfKey(dateStr)
+			const nextWeekday = weekdayOfKey(shiftDayKey(dateStr, 1))
+			for (let h = 0; h < 24; h++) {
+				const row = h < config.dayStartHour ? nextWeekday : weekday
+				time[row][h] += hours.time[h]
+				chars[row][h] += hours.chars[h]
+			}
+		}
+
+		return { time, chars, days }
+	}
+
+	// Срез данных по проекту и языку в виде Aggregate, чтобы построители
+	// статистики и панель работали с ним так же, как со всем store. Дни
+	// языка берутся из истории и есть только у дней, не свёрнутых в недели
+	function buildFilteredView(projectId?: string, language?: string): Aggregate {
+		const files: Record<string, FileStat> = {}
+		const languages: Record<string, LanguageStat> = {}
+		for (const fileStat of Object.values(store.files)) {
+			if (projectId && fileStat.project !== projectId) continue
+			if (language && fileStat.language !== language) continue
+			files[fileStat.file] = fileStat
+			if (!languages[fileStat.language]) {
+				languages[fileStat.language] = {
+					language: fileStat.language,
+					chars: 0,
+					lines: 0,
+					timeSeconds: 0,
+					byClassification: emptyClassificationStats(),
+				}
+			}
+			const langStat = languages[fileStat.language]
+			langStat.chars += fileStat.chars
+			langStat.lines += fileStat.lines
+			langStat.timeSeconds += fileStat.timeSeconds
+			for (const cls of CLASSIFICATIONS) {
+				langStat.byClassification[cls].chars += fileStat.byClassification[cls].chars
+				langStat.byClassification[cls].count += fileStat.byClassification[cls].count
+			}
+			if (fileStat.churn) {
+				const churn = ensureChurn(langStat)
+				churn.removedChars += fileStat.churn.removedChars
+				churn.removedLines += fileStat.churn.removedLines
+				churn.addedLines = (churn.addedLines || 0) + (fileStat.churn.addedLines || 0)
+				churn.undoRedo.count += fileStat.churn.undoRedo.count
+				churn.undoRedo.addedChars += fileStat.churn.undoRedo.addedChars
+				churn.undoRedo.removedChars += fileStat.churn.undoRedo.removedChars
+			}
+		}
+		return {
+			files,
+			languages,
+			lastUpdate: store.lastUpdate,
+			dailyStats: language
+				? languageDailyStats(store.history || {}, language, projectId)
+				: projectId
+				? store.projects?.[projectId]?.dailyStats || {}
+				: store.dailyStats,
+			bulkChanges: (store.bulkChanges || []).filter(b => files[b.file]),
+			dayModel: store.dayModel,
+		}
+	}
+
+	function buildProjectList(): ProjectSummary[] {
+		const totals: Record<string, { seconds: number; chars: number }> = {}
+		for (const fileStat of Object.values(store.files)) {
+			if (!fileStat.project) continue
+			const total = totals[fileStat.project] || (totals[fileStat.project] = { seconds: 0, chars: 0 })
+			total.seconds += fileStat.timeSeconds
+			total.chars += fileStat.chars
+		}
+		return Object.values(store.projects || {})
+			.map(p => ({
+				id: p.id,
+				name: p.name,
+				root: p.root,
+				kind: p.kind,
+				seconds: Math.round(totals[p.id]?.seconds || 0),
+				chars: totals[p.id]?.chars || 0,
+			}))
+			.sort((a, b) => b.seconds - a.seconds)
+	}
+
+	// Ветки и коммиты выбранного проекта (или всех репозиториев)
+	function buildGitData(): GitData {
+		const git = store.git || { branches: {}, commits: [], repos: {} }
+		const inScope = (repo: string) => !selectedProject || repo === selectedProject
+		const repoName = (repo: string) => store.projects?.[repo]?.name || path.basename(repo)
+		return {
+			branches: Object.values(git.branches)
+				.filter(b => inScope(b.repo))
+				.sort((a, b) => b.lastActive - a.lastActive)
+				.slice(0, 20)
+				.map(b => ({
+					...b,
+					repoName: repoName(b.repo),
+					current: git.repos[b.repo]?.branch === b.branch,
+				})),
+			commits: git.commits
+				.filter(c => inScope(c.repo))
+				.slice(-50)
+				.reverse()
+				.map(c => ({ ...c, repoName: repoName(c.repo) })),
+		}
+	}
+
+	// Отрезки фокуса не привязаны к файлам и показываются без фильтра проекта
+	function buildFocusData(): FocusData {
+		const t = now()
+		const today = dayKey(t, config.dayStartHour)
+		const list = store.focusSessions || []
+		const summary = (from: number) => {
+			const items = list.filter(f => f.start >= from)
+			return {
+				completed: items.filter(f => f.completed).length,
+				seconds: Math.round(items.reduce((sum, f) => sum + f.activeSeconds, 0)),
+			}
+		}
+		return {
+			today: summary(dayStart(today, config.dayStartHour)),
+			week: summary(dayStart(weekStartKey(today), config.dayStartHour)),
+			recent: list.slice(-20).reverse(),
+			active: focus && {
+				phase: PHASE_LABELS[focus.phase],
+				cycles: focus.cycles,
+				remaining: Math.round(
+					remainingSeconds(focus, config.focus, t, pendingActiveSeconds())
+				),
+			},
+		}
+	}
+
+	function buildPeriodData(agg: Aggregate): PeriodData {
+		const today = dayKey(now(), config.dayStartHour)
+		const range = selectedRange || {
+			from: shiftDayKey(today, -(DEFAULT_PERIOD_DAYS - 1)),
+			to: today,
+		}
+		const previous = previousRange(range)
+		return {
+			range,
+			custom: Boolean(selectedRange),
+			compare: comparePeriods,
+			current: summarizeDays(daysInRange(agg.dailyStats, range)),
+			previous: comparePeriods
+				? { range: previous, summary: summarizeDays(daysInRange(agg.dailyStats, previous)) }
+				: undefined,
+		}
+	}
+
+	// Ряды по языкам за период панели. С выбранным проектом языки считаются по
+	// его файлам: в истории языков проектов нет
+	function buildTrendData(period: PeriodData): TrendData {
+		const project = selectedProject
+		return buildTrend(store.history || {}, period.range, {
+			fileLanguage: file => store.files[file]?.language,
+			inProject: project ? file => store.files[file]?.project === project : undefined,
+			language: selectedLanguage,
+		})
+	}
+
+	// Языки файлов выбранного проекта — варианты фильтра языка
+	function buildLanguageList(): string[] {
+		const languages = new Set<string>()
+		for (const fileStat of Object.values(store.files)) {
+			if (!selectedProject || fileStat.project === selectedProject) languages.add(fileStat.language)
+		}
+		return [...languages].sort()
+	}
+
+	// Все карточки строятся по выбранным проекту и языку
+	function panelView() {
+		const filtered = Boolean(selectedProject || selectedLanguage)
+		const view = filtered ? buildFilteredView(selectedProject, selectedLanguage) : store
+		const inView = (file: string) => !filtered || Boolean(view.files[file])
+		return { view, inView }
+	}
+
+	// Разбивка дня по файлам и языкам — по дневной корзине истории, пока день не
+	// свёрнут в неделю. Категории — из дневной статистики, число сессий — по
+	// сессиям, начавшимся в этот день
+	function buildDayDetails(date: string): DayDetails {
+		const { view, inView } = panelView()
+		const count = sessions.filter(
+			session =>
+				dayKey(session.start, config.dayStartHour) === date &&
+				Object.keys(session.files).some(inView)
+		).length
+		const files: Record<string, DayFileStat> = {}
+		const bucket = store.history?.[historyKey('day', date)]
+		for (const [file, point] of Object.entries(bucket?.files || {})) {
+			const fileStat = store.files[file]
+			if (!fileStat || !inView(file)) continue
+			files[file] = { file, language: fileStat.language, seconds: point.seconds, chars: point.chars }
+		}
+		const languages: Record<string, SessionFileStat> = {}
+		for (const f of Object.values(files)) {
+			const total =
+				languages[f.language] ||
+				(languages[f.language] = { language: f.language, seconds: 0, chars: 0 })
+			total.seconds += f.seconds
+			total.chars += f.chars
+		}
+		return {
+			date,
+			stat: view.dailyStats[date],
+			sessions: count,
+			files: Object.values(files).sort((a, b) => b.seconds - a.seconds),
+			languages: Object.values(languages).sort((a, b) => b.seconds - a.seconds),
+		}
+	}
+
 	function sendDataToPanel() {
 		if (!panel) return
-		const builds = buildTimeWindows()
-		const extraStats = buildExtraStats()
-		const dailyStats = buildDailyStats()
-		const heatmapData = buildHeatmapData()
+		// Подтягиваем данные других окон
+		save(true)
+		if (selectedProject && !store.projects?.[selectedProject]) selectedProject = undefined
+		const languageList = buildLanguageList()
+		if (selectedLanguage && !languageList.includes(selectedLanguage)) selectedLanguage = undefined
+		const { view, inView } = panelView()
+		const builds = buildTimeWindows(view)
+		const extraStats = buildExtraStats(view)
+		const period = buildPeriodData(view)
+		const dailyStats = daysInRange(view.dailyStats, period.range)
+		const heatmapData = buildHeatmapData(view)
+		const hourlyHeatmap = buildHourlyHeatmap(view)
+		const snippetHistory: SnippetHistory = {
+			enabled: config.snippets.enabled,
+			snippets: snippets
+				.filter(s => inView(s.file))
+				.map(s => ({ ...s, day: dayKey(s.timestamp, config.dayStartHour) }))
+				.reverse(),
+		}
+		// Сессии проекта — те, в которых были открыты или изменены его файлы
+		const sessionDays = buildSessionTimeline(
+			sessions.filter(s => Object.keys(s.files).some(inView)),
+			startOfDay(now(), config.dayStartHour) - 29 * 24 * 3600 * 1000,
+			config.dayStartHour
+		)
 
-		panel.webview.postMessage({
+		const message: HostMessage = {
 			command: 'update',
 			payload: {
-				store,
+				// История уходит на панель рядами trend
+				store: { ...view, history: undefined },
+				projects: buildProjectList(),
+				selectedProject: selectedProject || '',
+				languages: languageList,
+				selectedLanguage: selectedLanguage || '',
 				timeWindows: builds,
 				extraStats: extraStats,
+				period: period,
+				trend: buildTrendData(period),
 				dailyStats: dailyStats,
 				heatmapData: heatmapData,
+				hourlyHeatmap: hourlyHeatmap,
+				snippetHistory: snippetHistory,
+				bulkChanges: (view.bulkChanges || []).slice(-50).reverse(),
+				git: buildGitData(),
+				focus: buildFocusData(),
+				sessionDays: sessionDays,
+				classifications: CLASSIFICATIONS.map(id => ({ id, ...CLASSIFICATION_INFO[id] })),
 			},
+		}
+		panel.webview.postMessage(message)
+	}
+
+	function buildReportData(from: string, to: string): ReportData {
+		const dailyStats = daysInRange(store.dailyStats, { from, to })
+		const summary = summarizeDays(dailyStats)
+		const { languages, files } = periodStats({ from, to })
+		const folders: Record<string, number> = {}
+		for (const f of files) {
+			folders[f.folder] = (folders[f.folder] || 0) + f.seconds
+		}
+
+		return {
+			from,
+			to,
+			generatedAt: now(),
+			summary,
+			timeWindows: buildTimeWindows(),
+			extraStats: buildExtraStats(),
+			dailyStats,
+			languages,
+			topFiles: files.slice(0, 5),
+			topFolders: Object.entries(folders)
+				.map(([folder, seconds]) => ({ folder, seconds }))
+				.sort((a, b) => b.seconds - a.seconds)
+				.slice(0, 5),
+		}
+	}
+
+	// Языки и файлы за период по истории, по убыванию времени. Забытые файлы
+	// и файлы без статистики пропускаются
+	function periodStats(range: DayRange): { languages: PeriodLanguage[]; files: PeriodFile[] } {
+		const totals = historyTotals(store.history || {}, range)
+		const bySeconds = (a: PeriodLanguage, b: PeriodLanguage) =>
+			b.seconds - a.seconds || b.chars - a.chars
+		const files: PeriodFile[] = []
+		for (const [file, point] of Object.entries(totals.files)) {
+			const stat = store.files[file]
+			if (!stat) continue
+			files.push({
+				file,
+				folder: stat.folder,
+				project: stat.project,
+				language: stat.language,
+				...point,
+			})
+		}
+		return {
+			languages: Object.entries(totals.languages)
+				.map(([language, point]) => ({ language, ...point }))
+				.sort(bySeconds),
+			files: files.sort(bySeconds),
+		}
+	}
+
+	async function pickReportRange(
+		placeHolder = 'Период отчёта'
+	): Promise<{ from: string; to: string } | undefined> {
+		const t = now()
+		const today = dayKey(t, config.dayStartHour)
+
+		const picked = await vscode.window.showQuickPick(
+			[
+				{ label: 'Последние 7 дней', from: shiftDayKey(today, -6), to: today },
+				{ label: 'Последние 30 дней', from: shiftDayKey(today, -29), to: today },
+				{ label: 'Текущий месяц', from: today.slice(0, 8) + '01', to: today },
+				{ label: 'Всё время', from: '0000-01-01', to: today },
+				{ label: 'Произвольный период…', from: '', to: '' },
+			],
+			{ placeHolder }
+		)
+		if (!picked) return undefined
+		if (picked.from) return { from: picked.from, to: picked.to }
+
+		const validateDate = (value: string) =>
+			isDayKey(value)
+				? undefined
+				: 'Введите дату в формате ГГГГ-ММ-ДД'
+
+		const from = await vscode.window.showInputBox({
+			prompt: 'Начало периода (ГГГГ-ММ-ДД)',
+			value: shiftDayKey(today, -6),
+			validateInput: validateDate,
+		})
+		if (!from) return undefined
+		const to = await vscode.window.showInputBox({
+			prompt: 'Конец периода (ГГГГ-ММ-ДД)',
+			value: today,
+			validateInput: value =>
+				validateDate(value) ||
+				(value < from ? 'Конец периода раньше начала' : undefined),
 		})
+		if (!to) return undefined
+		return { from, to }
 	}
 
-	function startOfMonth(ts: number) {
-		const d = new Date(ts)
-		d.setDate(1)
-		d.setHours(0, 0, 0, 0)
-		return d.getTime()
+	async function exportReport() {
+		const range = await pickReportRange()
+		if (!range) return
+
+		const html = renderReportHtml(buildReportData(range.from, range.to))
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.file(
+				path.join(
+					vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '',
+					`coding-report-${range.to}.pdf`
+				)
+			),
+			filters: { PDF: ['pdf'] },
+			saveLabel: 'Экспортировать',
+		})
+		if (!target) return
+
+		try {
+			const pdf = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: 'CodingTracker: формирование PDF…',
+				},
+				async () => {
+					const htmlPdf = await import('html-pdf-node')
+					return htmlPdf.generatePdf(
+						{ content: html },
+						{ format: 'A4', printBackground: true }
+					)
+				}
+			)
+			await vscode.workspace.fs.writeFile(target, pdf)
+			output.appendLine(`Report exported to ${target.fsPath}`)
+			const action = await vscode.window.showInformationMessage(
+				`Отчёт сохранён: ${path.basename(target.fsPath)}`,
+				'Открыть'
+			)
+			if (action === 'Открыть') void vscode.env.openExternal(target)
+		} catch (err) {
+			// Обычно это отсутствующий Chromium для puppeteer — предлагаем HTML-версию
+			output.appendLine(`PDF export failed: ${err}`)
+			const action = await vscode.window.showErrorMessage(
+				`Не удалось сформировать PDF: ${err instanceof Error ? err.message : err}`,
+				'Сохранить как HTML'
+			)
+			if (action === 'Сохранить как HTML') {
+				const htmlTarget = target.with({
+					path: target.path.replace(/\.pdf$/i, '') + '.html',
+				})
+				await vscode.workspace.fs.writeFile(htmlTarget, Buffer.from(html, 'utf8'))
+				void vscode.env.openExternal(htmlTarget)
+			}
+		}
 	}
 
-	const item = vscode.window.createStatusBarItem(
-		vscode.StatusBarAlignment.Left,
-		100
-	)
-	item.text = '$(graph) CodingTracker'
-	item.command = 'codingTracker.openDashboard'
-	item.show()
-	context.subscriptions.push(item)
+	function defaultExportUri(fileName: string) {
+		return vscode.Uri.file(
+			path.join(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '', fileName)
+		)
+	}
+
+	async function exportJson() {
+		const kind = await vscode.window.showQuickPick(
+			[
+				{
+					label: 'Полная копия',
+					detail: 'Все данные, включая итоги по файлам, языкам и веткам',
+					full: true,
+				},
+				{
+					label: 'За период…',
+					detail: 'Дни, сессии, фрагменты и коммиты за выбранный период',
+					full: false,
+				},
+			],
+			{ placeHolder: 'Что выгрузить' }
+		)
+		if (!kind) return
+		const range = kind.full ? undefined : await pickReportRange()
+		if (!kind.full && !range) return
+
+		const today = dayKey(now(), config.dayStartHour)
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: defaultExportUri(
+				range ? `coding-tracker-${range.from}-${range.to}.json` : `coding-tracker-${today}.json`
+			),
+			filters: { JSON: ['json'] },
+			saveLabel: 'Экспортировать',
+		})
+		if (!target) return
+
+		// Выгружаем то, что уже записано, вместе с изменениями других окон
+		save(true)
+		const file = buildExport(storedData(), {
+			exportId: Date.now().toString(36) + uid(),
+			source: vscode.env.machineId,
+			range,
+			dayStartHour: config.dayStartHour,
+		})
+		await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(file), 'utf8'))
+		output.appendLine(`Data exported to ${target.fsPath}`)
+		void vscode.window.showInformationMessage(
+			`Данные выгружены: ${path.basename(target.fsPath)}`
+		)
+	}
+
+	async function exportCsv() {
+		const kind = await vscode.window.showQuickPick(
+			[
+				{
+					label: 'Всё время',
+					detail: 'Итоги по дням, языкам и файлам за всё время',
+					full: true,
+				},
+				{
+					label: 'За период…',
+					detail: 'Дни периода; языки и файлы — время и символы за период',
+					full: false,
+				},
+			],
+			{ placeHolder: 'Что выгрузить' }
+		)
+		if (!kind) return
+		const range = kind.full ? undefined : await pickReportRange()
+		if (!kind.full && !range) return
+
+		const folder = await vscode.window.showOpenDialog({
+			canSelectFiles: false,
+			canSelectFolders: true,
+			canSelectMany: false,
+			defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+			openLabel: 'Сохранить CSV сюда',
+		})
+		if (!folder?.[0]) return
+
+		save(true)
+		const today = dayKey(now(), config.dayStartHour)
+		const projectName = (id?: string) => (id && store.projects?.[id]?.name) || ''
+		let tables: [string, string][]
+		if (range) {
+			const stats = periodStats(range)
+			tables = [
+				['daily', dailyCsv(daysInRange(store.dailyStats, range).reverse())],
+				['languages', periodLanguagesCsv(stats.languages)],
+				['files', periodFilesCsv(stats.files, projectName)],
+			]
+		} else {
+			tables = [
+				[
+					'daily',
+					dailyCsv(Object.values(store.dailyStats).sort((a, b) => a.date.localeCompare(b.date))),
+				],
+				[
+					'languages',
+					languagesCsv(Object.values(store.languages).sort((a, b) => b.timeSeconds - a.timeSeconds)),
+				],
+				[
+					'files',
+					filesCsv(
+						Object.values(store.files).sort((a, b) => b.timeSeconds - a.timeSeconds),
+						projectName
+					),
+				],
+			]
+		}
+		const suffix = range ? `${range.from}-${range.to}` : today
+		for (const [name, content] of tables) {
+			const target = vscode.Uri.joinPath(folder[0], `coding-tracker-${name}-${suffix}.csv`)
+			// BOM — чтобы Excel открыл UTF-8 без выбора кодировки
+			await vscode.workspace.fs.writeFile(target, Buffer.from('\ufeff' + content, 'utf8'))
+		}
+		output.appendLine(`CSV exported to ${folder[0].fsPath}`)
+		void vscode.window.showInformationMessage(
+			`Сохранено ${tables.length} CSV-файла в ${path.basename(folder[0].fsPath)}`
+		)
+	}
+
+	// Все записи выгрузки отмечаем в хранилище, чтобы импорт попал в журнал
+	// и дошёл до других окон
+	function touchImported(file: ExportFile) {
+		const { store: source } = file.data
+		for (const key of Object.keys(source.files)) storage.touch('files', key)
+		for (const key of Object.keys(source.languages)) storage.touch('languages', key)
+		for (const key of Object.keys(source.dailyStats)) storage.touch('dailyStats', key)
+		for (const [id, project] of Object.entries(source.projects || {})) {
+			storage.touch('projects', id)
+			for (const date of Object.keys(project.dailyStats)) {
+				storage.touch('projectDays', projectDayKey(id, date))
+			}
+		}
+		for (const key of Object.keys(source.git?.branches || {})) storage.touch('branches', key)
+		for (const c of source.git?.commits || []) storage.touch('commits', c.id)
+		for (const b of source.bulkChanges || []) storage.touch('bulkChanges', b.id)
+		for (const f of source.focusSessions || []) storage.touch('focusSessions', f.id)
+		for (const key of Object.keys(source.history || {})) storage.touch('history', key)
+		for (const s of file.data.sessions) storage.touch('sessions', s.id)
+		for (const s of file.data.snippets) storage.touch('snippets', s.id)
+		storage.touch('meta', 'imports')
+		storage.touch('meta', 'importedTotals')
+	}
+
+	async function importJson() {
+		const picked = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			filters: { JSON: ['json'] },
+			openLabel: 'Импортировать',
+		})
+		if (!picked?.[0]) return
+
+		let file: ExportFile
+		try {
+			file = parseExport(Buffer.from(await vscode.workspace.fs.readFile(picked[0])).toString('utf8'))
+		} catch (err) {
+			void vscode.window.showErrorMessage(
+				`Не удалось импортировать: ${err instanceof Error ? err.message : err}`
+			)
+			return
+		}
+
+		// Сначала подтягиваем изменения других окон, чтобы сливать с актуальными данными
+		save(true)
+		if (store.imports?.[file.exportId]) {
+			void vscode.window.showInformationMessage('Эта выгрузка уже была импортирована')
+			return
+		}
+		touchImported(file)
+		const result = mergeExport(storedData(), file, vscode.env.machineId)
+		fillMissingClassifications()
+		save(true, true)
+		sendDataToPanel()
+
+		output.appendLine(
+			`Imported ${picked[0].fsPath}: ${result.days} days, ${result.records} records, ${result.skipped} skipped`
+		)
+		void vscode.window.showInformationMessage(
+			`Импортировано: дней — ${result.days}, записей — ${result.records}` +
+				(result.skipped ? `, пропущено уже имеющихся — ${result.skipped}` : '')
+		)
+	}
+
+	// Время активного редактора засчитываем до удаления, иначе оно вернёт
+	// удалённые записи; заодно подтягиваем изменения других окон
+	function beforeDelete() {
+		setTimeTarget(currentTimeTarget())
+		save(true)
+	}
+
+	// Удалённая сессия не продолжается, забытый файл не возвращается, пока его
+	// снова не откроют. Удалений много — пишем новый снимок
+	function afterDelete() {
+		if (timeTarget && !store.files[timeTarget.file.key]) timeTarget = undefined
+		if (currentSession && !sessions.includes(currentSession)) currentSession = undefined
+		save(true, true)
+		sendDataToPanel()
+	}
+
+	async function resetAllData() {
+		const answer = await vscode.window.showWarningMessage(
+			'Удалить всю статистику, сессии и фрагменты? Это нельзя отменить.',
+			{
+				modal: true,
+				detail: 'Перед удалением можно сохранить копию командой «CodeTime: Export Data (JSON)».',
+			},
+			'Удалить всё'
+		)
+		if (answer !== 'Удалить всё') return
+		beforeDelete()
+		resetData(storedData(), storage.touch)
+		afterDelete()
+		output.appendLine('All data reset')
+		void vscode.window.showInformationMessage('Все данные Coding Tracker удалены')
+	}
+
+	async function deleteRange() {
+		const range = await pickReportRange('Период, данные за который удалить')
+		if (!range) return
+		const answer = await vscode.window.showWarningMessage(
+			`Удалить данные с ${range.from} по ${range.to}?`,
+			{
+				modal: true,
+				detail:
+					'Удаляются дневная статистика, сессии, фрагменты, коммиты, массовые изменения и отрезки фокуса за эти дни. ' +
+					'Итоги по файлам и языкам за всё время не меняются.',
+			},
+			'Удалить'
+		)
+		if (answer !== 'Удалить') return
+		beforeDelete()
+		const days = deleteDays(storedData(), range, config.dayStartHour, storage.touch)
+		afterDelete()
+		output.appendLine(`Deleted ${days} days from ${range.from} to ${range.to}`)
+		void vscode.window.showInformationMessage(`Удалено дней: ${days}`)
+	}
+
+	async function forgetData() {
+		const what = await vscode.window.showQuickPick(
+			[
+				{ label: '$(file) Файл', target: 'file' as const },
+				{ label: '$(folder) Папка', target: 'folder' as const },
+				{ label: '$(symbol-keyword) Язык', target: 'language' as const },
+			],
+			{ placeHolder: 'Что забыть' }
+		)
+		if (!what) return
+		beforeDelete()
+
+		const files = Object.values(store.files).sort((a, b) => b.timeSeconds - a.timeSeconds)
+		let label: string
+		let forget: () => number
+		if (what.target === 'file') {
+			const picked = await vscode.window.showQuickPick(
+				files.map(f => ({
+					label: displayName(f.file),
+					description: f.folder,
+					detail: `${formatDuration(f.timeSeconds)} · ${f.chars} символов`,
+					file: f.file,
+				})),
+				{ placeHolder: 'Файл', matchOnDescription: true, canPickMany: true }
+			)
+			if (!picked?.length) return
+			label = picked.length === 1 ? picked[0].label : `${picked.length} файлов`
+			forget = () => forgetFiles(storedData(), picked.map(p => p.file), storage.touch)
+		} else if (what.target === 'folder') {
+			const folders = [...new Set(files.map(f => f.folder))].sort()
+			const folder = await vscode.window.showQuickPick(folders, {
+				placeHolder: 'Папка (вместе с вложенными)',
+			})
+			if (!folder) return
+			// Корень рабочей области записан как «имя:», вложенные папки — «имя:путь»
+			const inFolder = (f: FileStat) =>
+				f.folder === folder ||
+				(folder.endsWith(':') && f.folder.startsWith(folder)) ||
+				f.folder.startsWith(folder + '/') ||
+				f.folder.startsWith(folder + path.sep)
+			label = folder
+			forget = () =>
+				forgetFiles(storedData(), files.filter(inFolder).map(f => f.file), storage.touch)
+		} else {
+			const language = await vscode.window.showQuickPick(
+				Object.values(store.languages)
+					.sort((a, b) => b.timeSeconds - a.timeSeconds)
+					.map(l => l.language),
+				{ placeHolder: 'Язык' }
+			)
+			if (!language) return
+			label = language
+			forget = () => forgetLanguage(storedData(), language, storage.touch)
+		}
+
+		const answer = await vscode.window.showWarningMessage(
+			`Забыть ${label}?`,
+			{
+				modal: true,
+				detail:
+					'Итоги файлов удаляются вместе с их фрагментами и массовыми изменениями. ' +
+					'Дневная статистика не разделена по файлам и не меняется. ' +
+					'Чтобы не записывать их дальше, добавьте шаблон в codingTracker.exclude.',
+			},
+			'Забыть'
+		)
+		if (answer !== 'Забыть') return
+		const count = forget()
+		afterDelete()
+		output.appendLine(`Forgot ${label}: ${count} files`)
+		void vscode.window.showInformationMessage(`Забыто файлов: ${count}`)
+	}
 
 	// Периодическая очистка данных (раз в день)
 	const cleanupInterval = setInterval(() => {
@@ -557,552 +2512,13 @@ export function activate(context: vscode.ExtensionContext) {
 				clearTimeout(saveTimeout)
 			}
 			clearInterval(cleanupInterval)
+			clearInterval(idleInterval)
+			clearInterval(gitInterval)
+			if (focusInterval) clearInterval(focusInterval)
+			recordUnfinishedWork(now())
 			save(true)
 		},
 	})
-
-	function getWebviewContent(webview: vscode.Webview, _extUri: vscode.Uri) {
-		const nonce = uid()
-		const chartJs = `
-  <script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
- `
-
-		return `<!doctype html>
-<html lang="ru">
-<head>
-<meta charset="utf-8" />
-<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data: https:; script-src 'nonce-${nonce}' https://cdn.jsdelivr.net; style-src 'unsafe-inline';">
-<meta name="viewport" content="width=device-width, initial-scale=1.0" />
-<title>Панель мониторинга Coding Tracker</title>
-<style>
- :root {
-  --bg: #0f1724;
-  --card: #1a2332;
-  --border: #2d3748;
-  --text: #e2e8f0;
-  --text-muted: #94a3b8;
-  --accent: #60a5fa;
-  --ai: #ff5c5c;
-  --paste: #fbbf24;
-  --manual: #34d399;
- }
- body { 
-  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; 
-  margin: 0; padding: 16px; 
-  color: var(--text); background: var(--bg); 
-  line-height: 1.5;
- }
- h1 { font-size: 1.5rem; margin: 0 0 12px; color: #fff; display: flex; align-items: center; gap: 8px; }
- h2 { font-size: 1.1rem; margin: 16px 0 8px; color: #fff; font-weight: 600; }
- .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(280px, 1fr)); gap: 16px; margin-bottom: 16px; }
- .chart-grid { display: grid; grid-template-columns: 1.2fr 1fr; gap: 16px; margin-bottom: 16px; }
-
- .card { 
-  background: var(--card); 
-  border-radius: 12px; 
-  padding: 16px; 
-  border: 1px solid var(--border); 
-  box-shadow: 0 4px 12px rgba(0,0,0,0.3);
-  transition: transform 0.2s, box-shadow 0.2s;
- }
- .card:hover { box-shadow: 0 8px 20px rgba(0,0,0,0.4); }
- .controls { display: flex; gap: 8px; margin-bottom: 16px; flex-wrap: wrap; }
- button { 
-  padding: 8px 12px; border-radius: 8px; background: #1e293b; color: #cbd5e1; 
-  border: 1px solid var(--border); cursor: pointer; font-size: 0.9rem; 
-  transition: all 0.2s;
- }
- button:hover { background: #334155; transform: translateY(-1px); }
- .stat { font-size: 1.8rem; font-weight: 700; margin: 4px 0; color: var(--accent); }
- .small { font-size: 0.85rem; color: var(--text-muted); }
- table { width:100%; border-collapse: collapse; font-size: 0.9rem; }
- th, td { padding: 6px 8px; text-align: left; }
- th { color: var(--text-muted); font-weight: 600; font-size: 0.8rem; text-transform: uppercase; letter-spacing: 0.5px; }
- tr:hover td { background: rgba(255,255,255,0.03); }
- .lang-tag { font-weight: 700; color: #e0f2fe; }
- .chart-container { position: relative; height: 180px; margin: 12px 0; }
- .heatmap { display: grid; grid-template-columns: repeat(24, 1fr); gap: 2px; margin: 12px 0; }
- .hour { width: 100%; height: 20px; background: #334155; border-radius: 2px; }
- .hour.active { background: var(--accent); }
- .hour.hot { background: #60a5fa; }
- .hour.very-hot { background: #3b82f6; }
- .top-item { display: flex; justify-content: space-between; padding: 4px 0; font-size: 0.9rem; align-items: center; }
- .progress { height: 6px; background: var(--border); border-radius: 3px; overflow: hidden; margin-top: 4px; }
- .progress-bar { height: 100%; border-radius: 3px; }
- .legend-item { display: flex; justify-content: space-between; padding: 4px 0; font-size: 0.9rem; align-items: center; }
- .legend-item span:first-child { display: flex; align-items: center; }
- .color-box { width: 10px; height: 10px; border-radius: 2px; margin-right: 6px; }
- 
- .github-heatmap { 
-  display: grid; 
-  grid-template-columns: repeat(13, 1fr);
-  gap: 2px; 
-  margin: 12px 0;
- }
- .heatmap-day { 
-  width: 30px; 
-  height: 30px; 
-  border-radius: 2px;
-  background: #ebedf0;
- }
- .heatmap-day-0 { background: #ebedf0; }
- .heatmap-day-1 { background: #9be9a8; }
- .heatmap-day-2 { background: #40c463; }
- .heatmap-day-3 { background: #30a14e; }
- .heatmap-day-4 { background: #216e39; }
- .daily-table { width: 100%; font-size: 0.8rem; }
- .daily-table th { padding: 4px 8px; }
- .daily-table td { padding: 4px 8px; border-top: 1px solid var(--border); }
- .classification-bar { display: flex; height: 4px; border-radius: 2px; overflow: hidden; margin-top: 2px; }
- .classification-manual { background: var(--manual); }
- .classification-paste { background: var(--paste); }
- .classification-ai { background: var(--ai); }
- 
- @keyframes fadeIn { from { opacity: 0; transform: translateY(10px); } to { opacity: 1; transform: none; } }
- .fade-in { animation: fadeIn 0.4s ease-out; }
-</style>
-${chartJs}
-</head>
-<body>
- <h1>Панель мониторинга Coding Tracker</h1>
- <div class="controls">
-  <button id="refresh">Обновить</button>
- </div>
-
- <div class="grid">
-  <div class="card fade-in">
-   <h2>Отслеживание времени</h2>
-   <div id="timeWindows">Загрузка…</div>
-  </div>
-  <div class="card fade-in">
-   <h2>Статистика сессии</h2>
-   <div id="sessionInfo">—</div>
-  </div>
- </div>
-
- <div class="grid">
-  <div class="card fade-in">
-   <h2>Серии активности</h2>
-   <div id="streakInfo">—</div>
-  </div>
-  <div class="card fade-in">
-   <h2>Общие изменения</h2>
-   <div id="totalEditsInfo">—</div>
-  </div>
- </div>
-
- <!-- Новая секция: Heatmap активности -->
- <div style='margin-bottom: 16px' class="card fade-in">
-  <h2>Heatmap активности (90 дней)</h2>
-  <div id="githubHeatmap" class="github-heatmap"></div>
-  <div class="small" style="margin-top: 8px; display: flex; align-items: center; gap: 8px;">
-   <span>Меньше</span>
-   <div class="heatmap-day heatmap-day-0"></div>
-   <div class="heatmap-day heatmap-day-1"></div>
-   <div class="heatmap-day heatmap-day-2"></div>
-   <div class="heatmap-day heatmap-day-3"></div>
-   <div class="heatmap-day heatmap-day-4"></div>
-   <span>Больше</span>
-  </div>
- </div>
-
- <!-- Новая секция: Статистика по дням -->
- <div class="card fade-in">
-  <h2>Статистика по дням</h2>
-  <table class="daily-table" id="dailyStatsTable">
-   <thead>
-    <tr>
-     <th>Дата</th>
-     <th>Всего символов</th>
-     <th>Время</th>
-     <th>Вручную</th>
-     <th>Вставка</th>
-     <th>ИИ</th>
-    </tr>
-   </thead>
-   <tbody id="dailyStatsBody"></tbody>
-  </table>
- </div>
-
- <h2>Разбивка по вкладу</h2>
- <div class="chart-grid">
-  <div class="card fade-in">
-   <h3>Классификация (Символы)</h3>
-   <div id="classificationChart" class="chart-container">
-    <canvas id="classChart"></canvas>
-   </div>
-  </div>
-  <div class="card fade-in" id="classificationLegend">
-   <h3>Сводка</h3>
-   <div id="classSummary">Загрузка...</div>
-  </div>
- </div>
-
- <h2>Доминирование языков</h2>
- <div class="chart-grid">
-  <div class="card fade-in">
-   <h3>Топ языков (Символы)</h3>
-   <div id="langChart" class="chart-container">
-    <canvas id="langPie"></canvas>
-   </div>
-  </div>
-  <div class="card fade-in" id="languageLegend">
-   <h3>Топ-5 языков</h3>
-   <div id="langSummary">Загрузка...</div>
-  </div>
- </div>
-
- <div class="card fade-in" style="margin-top: 16px;margin-bottom: 16px;">
-  <h2>Активность по дням недели</h2>
-  <div id="weekdayChart" class="chart-container">
-   <canvas id="weekDayChart"></canvas>
-  </div>
- </div>
-
- <div class="grid">
-  <div class="card fade-in">
-   <h2>Топ-5 файлов</h2>
-   <div id="topFiles">—</div>
-  </div>
-  <div class="card fade-in">
-   <h2>Топ-5 папок</h2>
-   <div id="topFolders">—</div>
-   </div>
- </div>
-
- <div class="card fade-in" style="margin-top: 16px;">
-  <h2>Языки (Подробная таблица)</h2>
-  <table id="langTable">
-   <thead><tr><th>Язык</th><th>Символы</th><th>Время</th><th>ИИ</th><th>Вставка</th><th>Вручную</th></tr></thead>
-   <tbody></tbody>
-  </table>
- </div>
-
-<script nonce="${nonce}">
- const vscode = acquireVsCodeApi();
- let classChart = null, langPie = null, weeklyChart = null;
-
- function msToTime(s) {
-  const h = Math.floor(s / 3600), m = Math.floor((s % 3600) / 60), sec = Math.round(s % 60);
-  return h > 0 ? \`\${h}ч \${m}м\` : m > 0 ? \`\${m}м \${sec}с\` : \`\${sec}с\`;
- }
-
- function formatNumber(n) { return n.toLocaleString('ru-RU'); }
-
- document.getElementById('refresh').onclick = () => vscode.postMessage({ command: 'requestData' });
-
- window.addEventListener('message', e => {
-  const { store, timeWindows, extraStats, dailyStats, heatmapData } = e.data.payload;
-  renderAll(store, timeWindows, extraStats, dailyStats, heatmapData);
- });
-
- function renderAll(store, tw, extraStats, dailyStats, heatmapData) {
-  renderTimeWindows(tw);
-  renderSession(store);
-  renderStreakInfo(extraStats);
-  renderTotalEditsInfo(extraStats);
-  renderDailyStats(dailyStats);
-  renderHeatmap(heatmapData);
-  renderClassificationChart(store);
-  renderLangPie(store);
-  renderWeeklyActivity(extraStats);
-  renderTopFiles(store);
-  renderTopFolders(store);
-  renderLangTable(store.languages);
- }
-
- // Новая функция для отображения heatmap активности
- function renderHeatmap(heatmapData) {
-  const container = document.getElementById('githubHeatmap');
-  if (!heatmapData || heatmapData.length === 0) {
-    container.innerHTML = '<div class="small">Нет данных за последние 90 дней</div>';
-    return;
-  }
-
-  // Находим максимальное значение для нормализации
-  const maxValue = Math.max(...heatmapData.map(d => d.value));
-  
-  let html = '';
-  heatmapData.forEach(day => {
-    let level = 0;
-    if (day.value > 0) {
-      const intensity = day.value / maxValue;
-      if (intensity < 0.25) level = 1;
-      else if (intensity < 0.5) level = 2;
-      else if (intensity < 0.75) level = 3;
-      else level = 4;
-    }
-    
-    const date = new Date(day.date);
-    const title = \`\${date.toLocaleDateString('ru-RU')}: \${formatNumber(day.value)} символов\`;
-    html += \`<div class="heatmap-day heatmap-day-\${level}" title="\${title}"></div>\`;
-  });
-  
-  container.innerHTML = html;
- }
-
- // Новая функция для отображения статистики по дням
- function renderDailyStats(dailyStats) {
-  const tbody = document.getElementById('dailyStatsBody');
-  if (!dailyStats || dailyStats.length === 0) {
-    tbody.innerHTML = '<tr><td colspan="6" style="text-align: center;">Нет данных</td></tr>';
-    return;
-  }
-
-  let html = '';
-  dailyStats.slice(0, 30).forEach(day => {
-    const date = new Date(day.date);
-    const dateStr = date.toLocaleDateString('ru-RU');
-    const totalChars = day.totalChars;
-    const totalTime = msToTime(day.totalTime);
-    
-    const manualChars = day.byClassification.manual.chars;
-    const pasteChars = day.byClassification.paste.chars;
-    const aiChars = day.byClassification.ai.chars;
-    
-    const totalClassification = manualChars + pasteChars + aiChars;
-    const manualPercent = totalClassification > 0 ? (manualChars / totalClassification * 100).toFixed(1) : '0';
-    const pastePercent = totalClassification > 0 ? (pasteChars / totalClassification * 100).toFixed(1) : '0';
-    const aiPercent = totalClassification > 0 ? (aiChars / totalClassification * 100).toFixed(1) : '0';
-
-    html += \`
-      <tr>
-        <td>\${dateStr}</td>
-        <td>\${formatNumber(totalChars)}</td>
-        <td>\${totalTime}</td>
-        <td>
-          \${formatNumber(manualChars)} (\${manualPercent}%)
-          <div class="classification-bar">
-            <div class="classification-manual" style="width: \${manualPercent}%"></div>
-          </div>
-        </td>
-        <td>
-          \${formatNumber(pasteChars)} (\${pastePercent}%)
-          <div class="classification-bar">
-            <div class="classification-paste" style="width: \${pastePercent}%"></div>
-          </div>
-        </td>
-        <td>
-          \${formatNumber(aiChars)} (\${aiPercent}%)
-          <div class="classification-bar">
-            <div class="classification-ai" style="width: \${aiPercent}%"></div>
-          </div>
-        </td>
-      </tr>
-    \`;
-  });
-  
-  tbody.innerHTML = html;
- }
-
- function renderTimeWindows(tw) {
-  const el = document.getElementById('timeWindows');
-  el.innerHTML = '';
-  const labels = { last12h: 'Последние 12 часов', today: 'Сегодня', week: 'За неделю', month: 'За месяц' };
-  for (const k of ['last12h','today','week','month']) {
-   const it = tw[k];
-   const div = document.createElement('div');
-   div.innerHTML = \`<strong>\${labels[k]}</strong>: \${msToTime(it.seconds)} — \${formatNumber(it.chars)} Символов\`;
-   el.appendChild(div);
-  }
- }
-
- function renderSession(store) {
-  const totalTime = Object.values(store.files).reduce((a,f) => a + f.timeSeconds, 0);
-  const totalChars = Object.values(store.languages).reduce((a,l) => a + l.chars, 0);
-  const speed = totalTime > 0 ? Math.round(totalChars / totalTime * 60) : 0;
-  const el = document.getElementById('sessionInfo');
-  el.innerHTML = \`
-   <div><strong class="stat">\${msToTime(totalTime)}</strong> Общее время</div>
-   <div class="small">\${formatNumber(speed)} Символов/мин</div>
-   <div class="small">Последнее обновление: \${new Date(store.lastUpdate).toLocaleTimeString('ru-RU')}</div>
-  \`;
- }
-
- function renderStreakInfo(extraStats) {
-  const el = document.getElementById('streakInfo');
-  el.innerHTML = \`
-   <div><strong class="stat">\${formatNumber(extraStats.currentStreak)}</strong> Дней подряд</div>
-   <div class="small">Максимальная серия: \${formatNumber(extraStats.maxStreak)} дней</div>
-   <div class="small">Активные дни — это дни с хотя бы одним фрагментом кода.</div>
-  \`;
- }
-
- function renderTotalEditsInfo(extraStats) {
-  const el = document.getElementById('totalEditsInfo');
-  el.innerHTML = \`
-   <div><strong class="stat">\${formatNumber(extraStats.totalEdits)}</strong> Общее количество изменений</div>
-   <div class="small">Каждое изменение — это отдельное событие ввода.</div>
-  \`;
- }
-
- function renderClassificationChart(store) {
-  const data = { ai: 0, paste: 0, manual: 0 };
-  for (const l of Object.values(store.languages)) {
-   data.ai += l.byClassification.ai.chars;
-   data.paste += l.byClassification.paste.chars;
-   data.manual += l.byClassification.manual.chars;
-  }
-  
-  const totalChars = data.ai + data.paste + data.manual;
-  
-  const ctx = document.getElementById('classChart').getContext('2d');
-  if (classChart) classChart.destroy();
-  classChart = new Chart(ctx, {
-   type: 'doughnut',
-   data: {
-    labels: ['ИИ', 'Вставка', 'Вручную'],
-    datasets: [{
-     data: [data.ai, data.paste, data.manual],
-     backgroundColor: ['var(--ai)', 'var(--paste)', 'var(--manual)'],
-     borderWidth: 0
-    }]
-   },
-   options: { responsive: true, maintainAspectRatio: false, plugins: { legend: { display: false } } }
-  });
-
-  const summaryEl = document.getElementById('classSummary');
-  summaryEl.innerHTML = \`
-   \${renderLegendItem('ИИ (AI)', data.ai, totalChars, 'var(--ai)')}
-   \${renderLegendItem('Вставка (Paste)', data.paste, totalChars, 'var(--paste)')}
-   \${renderLegendItem('Вручную (Manual)', data.manual, totalChars, 'var(--manual)')}
-  \`;
- }
-
- function renderLangPie(store) {
-  const langs = Object.values(store.languages).filter(l => l.chars > 0).sort((a,b) => b.chars - a.chars);
-  const topLangs = langs.slice(0, 5);
-  const otherChars = langs.slice(5).reduce((a,l) => a + l.chars, 0);
-  
-  const colors = ['#60a5fa','#a78bfa','#f472b6','#fb923c','#facc15','#94a3b8'];
-  
-  let chartData = topLangs.map(l => l.chars);
-  let chartLabels = topLangs.map(l => l.language);
-  
-  if (otherChars > 0) {
-   chartData.push(otherChars);
-   chartLabels.push('Другие');
-  }
-
-  const ctx = document.getElementById('langPie').getContext('2d');
-  if (langPie) langPie.destroy();
-  langPie = new Chart(ctx, {
-   type: 'pie',
-   data: {
-    labels: chartLabels,
-    datasets: [{
-     data: chartData,
-     backgroundColor: colors.slice(0, chartData.length),
-     borderWidth: 0
-    }]
-   },
-   options: { responsive: true, maintainAspectRatio: false, plugins: { legend: { display: false } } }
-  });
-
-  const summaryEl = document.getElementById('langSummary');
-  const totalChars = langs.reduce((a,l) => a + l.chars, 0);
-  
-  let html = '';
-  for (let i = 0; i < topLangs.length; i++) {
-   html += renderLegendItem(topLangs[i].language, topLangs[i].chars, totalChars, colors[i]);
-  }
-  if (otherChars > 0) {
-   html += renderLegendItem('Другие', otherChars, totalChars, colors[topLangs.length]);
-  }
-  summaryEl.innerHTML = html;
- }
- 
- function renderLegendItem(label, chars, total, color) {
-  const percent = total > 0 ? Math.round((chars / total) * 100) : 0;
-  return \`
-   <div class="legend-item">
-    <span><div class="color-box" style="background: \${color};"></div> \${escapeHtml(label)}</span>
-    <span>\${formatNumber(chars)} (\${percent}%)</span>
-   </div>
-   <div class="progress"><div class="progress-bar" style="width: \${percent}%; background: \${color};"></div></div>
-  \`;
- }
-
- function renderWeeklyActivity(extraStats) {
-  const ctx = document.getElementById('weekDayChart').getContext('2d');
-  if (weeklyChart) weeklyChart.destroy();
-  
-  const labels = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
-  const data = [...extraStats.weekdayCounts];
-  const shiftedData = [...data.slice(1), data[0]];
-
-  weeklyChart = new Chart(ctx, {
-   type: 'bar',
-   data: {
-    labels: labels,
-    datasets: [{
-     label: 'Активные дни',
-     data: shiftedData,
-     backgroundColor: 'var(--accent)',
-     borderColor: 'var(--accent)',
-     borderWidth: 1
-    }]
-   },
-   options: { 
-    responsive: true, 
-    maintainAspectRatio: false,
-    plugins: { 
-     legend: { display: false } 
-    },
-    scales: {
-     x: { grid: { display: false } },
-     y: { beginAtZero: true, ticks: { precision: 0 } }
-    }
-   }
-  });
- }
-
- function renderTopFiles(store) {
-  const files = Object.values(store.files).sort((a,b) => b.timeSeconds - a.timeSeconds).slice(0,5);
-  const el = document.getElementById('topFiles');
-  el.innerHTML = files.map(f => {
-   const name = f.file.split(/[\\/]/).pop();
-   return \`<div class="top-item"><span>\${name}</span><span>\${msToTime(Math.round(f.timeSeconds))}</span></div>\`;
-  }).join('');
- }
-
- function renderTopFolders(store) {
-  const folders = {};
-  for (const f of Object.values(store.files)) {
-   folders[f.folder] = (folders[f.folder] || 0) + f.timeSeconds;
-  }
-  const top = Object.entries(folders).sort((a,b) => b[1] - a[1]).slice(0,5);
-  const el = document.getElementById('topFolders');
-  el.innerHTML = top.map(([f,t]) => \`<div class="top-item"><span>\${f}</span><span>\${msToTime(Math.round(t))}</span></div>\`).join('');
- }
-
- function renderLangTable(langs) {
-  const tbody = document.querySelector('#langTable tbody');
-  tbody.innerHTML = '';
-  const arr = Object.values(langs).sort((a,b) => b.chars - a.chars);
-  for (const l of arr) {
-   const row = document.createElement('tr');
-   row.innerHTML = \`
-    <td class="lang-tag">\${escapeHtml(l.language)}</td>
-    <td>\${formatNumber(l.chars)}</td>
-    <td>\${msToTime(l.timeSeconds)}</td>
-    <td>\${formatNumber(l.byClassification.ai.chars)}</td>
-    <td>\${formatNumber(l.byClassification.paste.chars)}</td>
-    <td>\${formatNumber(l.byClassification.manual.chars)}</td>
-   \`;
-   tbody.appendChild(row);
-  }
- }
-
- function escapeHtml(s) {
-  return s.replace(/[&<>"']/g, m => ({'&':'&amp;','<':'&lt;','>':'&gt;','"':'&quot;',"'":'&#39;'}[m]));
- }
-
- vscode.postMessage({ command: 'requestData' });
-</script>
-</body>
-</html>`
-	}
 }
 
 export function deactivate() {
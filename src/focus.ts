@@ -0,0 +1,83 @@
+// src/focus.ts
+// Режим фокуса: рабочие отрезки и перерывы по кругу. Рабочий отрезок идёт
+// только по активному времени — простой и время вне редактора его не двигают,
+// перерыв идёт по часам
+import { FocusSessionRecord } from './types'
+
+export type FocusPhase = 'work' | 'break' | 'longBreak'
+
+export interface FocusOptions {
+	workMinutes: number
+	breakMinutes: number
+	longBreakMinutes: number
+	// Каждый какой перерыв длинный
+	cyclesBeforeLongBreak: number
+}
+
+export interface FocusState {
+	phase: FocusPhase
+	phaseStart: number
+	// Активное время в рабочем отрезке
+	activeSeconds: number
+	// Сколько рабочих отрезков завершено с начала режима
+	cycles: number
+}
+
+export const PHASE_LABELS: Record<FocusPhase, string> = {
+	work: 'Фокус',
+	break: 'Перерыв',
+	longBreak: 'Длинный перерыв',
+}
+
+export function phaseSeconds(phase: FocusPhase, options: FocusOptions): number {
+	const minutes =
+		phase === 'work'
+			? options.workMinutes
+			: phase === 'break'
+			? options.breakMinutes
+			: options.longBreakMinutes
+	return minutes * 60
+}
+
+export function startFocus(t: number): FocusState {
+	return { phase: 'work', phaseStart: t, activeSeconds: 0, cycles: 0 }
+}
+
+// Сколько осталось до конца фазы. pendingSeconds — активное время, ещё не
+// засчитанное в activeSeconds
+export function remainingSeconds(
+	state: FocusState,
+	options: FocusOptions,
+	t: number,
+	pendingSeconds = 0
+): number {
+	const total = phaseSeconds(state.phase, options)
+	if (state.phase === 'work') return total - state.activeSeconds - pendingSeconds
+	return total - (t - state.phaseStart) / 1000
+}
+
+export function nextPhase(state: FocusState, options: FocusOptions, t: number): FocusState {
+	if (state.phase !== 'work') {
+		return { phase: 'work', phaseStart: t, activeSeconds: 0, cycles: state.cycles }
+	}
+	const cycles = state.cycles + 1
+	const long = options.cyclesBeforeLongBreak > 0 && cycles % options.cyclesBeforeLongBreak === 0
+	return { phase: long ? 'longBreak' : 'break', phaseStart: t, activeSeconds: 0, cycles }
+}
+
+export function focusRecord(
+	state: FocusState,
+	options: FocusOptions,
+	id: string,
+	t: number,
+	completed: boolean
+): FocusSessionRecord {
+	return {
+		id,
+		start: state.phaseStart,
+		end: t,
+		plannedSeconds: phaseSeconds('work', options),
+		activeSeconds: Math.round(state.activeSeconds),
+		completed,
+	}
+}
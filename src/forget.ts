@@ -0,0 +1,176 @@
+// src/forget.ts
+// Удаление данных по запросу пользователя: всё сразу, дни за период, файлы и
+// языки. Каждая удаляемая или меняемая запись отмечается через touch, чтобы
+// удаление попало в журнал и дошло до других окон
+import { dayStart, shiftDayKey } from './days'
+import { bucketEnd, languageDayKey, splitLanguageDayKey } from './history'
+import { diffValue } from './merge'
+import { Collection, projectDayKey, StoredData } from './storage'
+import { FileStat } from './types'
+
+type Touch = (collection: Collection, key: string) => void
+
+// Удаляет из списка на месте: на массивы ссылаются снаружи
+export function removeWhere<T extends { id: string }>(
+	list: T[] | undefined,
+	collection: Collection,
+	predicate: (item: T) => boolean,
+	touch: Touch
+): number {
+	if (!list) return 0
+	let removed = 0
+	for (let i = list.length - 1; i >= 0; i--) {
+		if (!predicate(list[i])) continue
+		touch(collection, list[i].id)
+		list.splice(i, 1)
+		removed++
+	}
+	return removed
+}
+
+function clearMap(map: Record<string, unknown> | undefined, collection: Collection, touch: Touch) {
+	for (const key of Object.keys(map || {})) {
+		touch(collection, key)
+		delete map![key]
+	}
+}
+
+export function resetData(data: StoredData, touch: Touch) {
+	const { store } = data
+	clearMap(store.files, 'files', touch)
+	clearMap(store.languages, 'languages', touch)
+	clearMap(store.dailyStats, 'dailyStats', touch)
+	for (const [id, project] of Object.entries(store.projects || {})) {
+		for (const date of Object.keys(project.dailyStats)) {
+			touch('projectDays', projectDayKey(id, date))
+		}
+	}
+	clearMap(store.projects, 'projects', touch)
+	clearMap(store.git?.branches, 'branches', touch)
+	clearMap(store.git?.repos, 'repos', touch)
+	removeWhere(store.git?.commits, 'commits', () => true, touch)
+	removeWhere(store.bulkChanges, 'bulkChanges', () => true, touch)
+	removeWhere(store.focusSessions, 'focusSessions', () => true, touch)
+	clearMap(store.history, 'history', touch)
+	removeWhere(data.sessions, 'sessions', () => true, touch)
+	removeWhere(data.snippets, 'snippets', () => true, touch)
+	touch('meta', 'imports')
+	delete store.imports
+	touch('meta', 'importedTotals')
+	delete store.importedTotals
+}
+
+// Дни периода и всё, что к ним привязано по времени. Итоги по файлам, языкам и
+// веткам за всё время по дням не разделены и не меняются. Свёрнутые недели и
+// месяцы истории удаляются, только если целиком попали в период
+export function deleteDays(
+	data: StoredData,
+	range: { from: string; to: string },
+	dayStartHour: number,
+	touch: Touch
+): number {
+	const { store } = data
+	const inRange = (key: string) => key >= range.from && key <= range.to
+	const fromTs = dayStart(range.from, dayStartHour)
+	const toTs = dayStart(shiftDayKey(range.to, 1), dayStartHour)
+	const tsInRange = (ts: number) => ts >= fromTs && ts < toTs
+
+	let days = 0
+	for (const date of Object.keys(store.dailyStats)) {
+		if (!inRange(date)) continue
+		touch('dailyStats', date)
+		delete store.dailyStats[date]
+		days++
+	}
+	for (const [id, project] of Object.entries(store.projects || {})) {
+		for (const date of Object.keys(project.dailyStats)) {
+			if (!inRange(date)) continue
+			touch('projectDays', projectDayKey(id, date))
+			delete project.dailyStats[date]
+		}
+	}
+	for (const [key, bucket] of Object.entries(store.history || {})) {
+		if (!inRange(bucket.start) || !inRange(bucketEnd(bucket))) continue
+		touch('history', key)
+		delete store.history![key]
+	}
+	removeWhere(store.git?.commits, 'commits', c => tsInRange(c.timestamp), touch)
+	removeWhere(store.bulkChanges, 'bulkChanges', b => tsInRange(b.timestamp), touch)
+	removeWhere(store.focusSessions, 'focusSessions', f => tsInRange(f.start), touch)
+	removeWhere(data.sessions, 'sessions', s => tsInRange(s.start), touch)
+	removeWhere(data.snippets, 'snippets', s => tsInRange(s.timestamp), touch)
+	return days
+}
+
+// Забывает файлы: их итоги вычитаются из языков, сессий и истории, фрагменты и
+// массовые изменения удаляются. Дневная статистика по файлам не разделена и остаётся
+export function forgetFiles(data: StoredData, filePaths: string[], touch: Touch): number {
+	const { store } = data
+	// Забытые файлы с их языком и проектом
+	const forgotten = new Map<string, FileStat>()
+	for (const filePath of filePaths) {
+		const fileStat: FileStat | undefined = store.files[filePath]
+		if (!fileStat) continue
+		const langStat = store.languages[fileStat.language]
+		if (langStat) {
+			touch('languages', fileStat.language)
+			Object.assign(langStat, diffValue(langStat, fileStat))
+		}
+		touch('files', filePath)
+		delete store.files[filePath]
+		forgotten.set(filePath, fileStat)
+	}
+	for (const [key, bucket] of Object.entries(store.history || {})) {
+		for (const [filePath, point] of Object.entries(bucket.files)) {
+			if (!forgotten.has(filePath)) continue
+			touch('history', key)
+			const { language, project } = forgotten.get(filePath)!
+			const langPoint = bucket.languages[language]
+			if (langPoint) {
+				langPoint.seconds = Math.max(0, langPoint.seconds - point.seconds)
+				langPoint.chars = Math.max(0, langPoint.chars - point.chars)
+			}
+			// Из дня языка вычитаются только время и ввод: категории и часы по файлам не разделены
+			const day = bucket.days?.[languageDayKey(project, language)]
+			if (day) {
+				day.totalTime = Math.max(0, day.totalTime - point.seconds)
+				day.totalChars = Math.max(0, day.totalChars - point.chars)
+			}
+			delete bucket.files[filePath]
+		}
+	}
+	for (const session of data.sessions) {
+		for (const filePath of Object.keys(session.files)) {
+			if (!forgotten.has(filePath)) continue
+			touch('sessions', session.id)
+			session.activeSeconds = Math.max(0, session.activeSeconds - session.files[filePath].seconds)
+			session.chars = Math.max(0, session.chars - session.files[filePath].chars)
+			delete session.files[filePath]
+		}
+	}
+	removeWhere(store.bulkChanges, 'bulkChanges', b => forgotten.has(b.file), touch)
+	removeWhere(data.snippets, 'snippets', s => forgotten.has(s.file), touch)
+	return forgotten.size
+}
+
+export function forgetLanguage(data: StoredData, language: string, touch: Touch): number {
+	const { store } = data
+	const files = Object.values(store.files).filter(f => f.language === language)
+	const count = forgetFiles(data, files.map(f => f.file), touch)
+	if (store.languages[language]) {
+		touch('languages', language)
+		delete store.languages[language]
+	}
+	for (const [key, bucket] of Object.entries(store.history || {})) {
+		const days = Object.keys(bucket.days || {}).filter(
+			dayKey => splitLanguageDayKey(dayKey).language === language
+		)
+		if (!bucket.languages[language] && days.length === 0) continue
+		touch('history', key)
+		delete bucket.languages[language]
+		for (const dayKey of days) delete bucket.days![dayKey]
+	}
+	removeWhere(store.bulkChanges, 'bulkChanges', b => b.language === language, touch)
+	removeWhere(data.snippets, 'snippets', s => s.language === language, touch)
+	return count
+}
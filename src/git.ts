@@ -0,0 +1,119 @@
+// src/git.ts
+// Чтение состояния репозитория прямо из .git: текущая ветка, коммит HEAD и
+// последняя запись reflog. Без запуска git и без сети
+import * as fs from 'fs'
+import * as path from 'path'
+
+export interface GitHead {
+	// Имя ветки; отсутствует при detached HEAD
+	branch?: string
+	// Коммит HEAD; отсутствует в репозитории без коммитов
+	commit?: string
+}
+
+export interface ReflogEntry {
+	oldCommit: string
+	newCommit: string
+	timestamp: number
+	message: string
+}
+
+// Сколько байт с конца reflog читать: нужна только последняя запись
+const REFLOG_TAIL_BYTES = 8192
+
+function readText(file: string): string | undefined {
+	try {
+		return fs.readFileSync(file, 'utf8')
+	} catch {
+		return undefined
+	}
+}
+
+// .git — папка, а у worktree и подмодулей — файл со строкой «gitdir: путь»
+export function resolveGitDir(root: string): string | undefined {
+	const dotGit = path.join(root, '.git')
+	try {
+		if (fs.statSync(dotGit).isDirectory()) return dotGit
+	} catch {
+		return undefined
+	}
+	const match = /^gitdir:\s*(.+)$/m.exec(readText(dotGit) || '')
+	return match ? path.resolve(root, match[1].trim()) : undefined
+}
+
+// Ветки worktree лежат в общем каталоге репозитория (файл commondir)
+function commonDir(gitDir: string): string {
+	const common = readText(path.join(gitDir, 'commondir'))
+	return common ? path.resolve(gitDir, common.trim()) : gitDir
+}
+
+function readRef(gitDir: string, ref: string): string | undefined {
+	const dir = commonDir(gitDir)
+	const loose = readText(path.join(dir, ref)) ?? readText(path.join(gitDir, ref))
+	if (loose) return loose.trim()
+	for (const line of (readText(path.join(dir, 'packed-refs')) || '').split('\n')) {
+		const [sha, name] = line.trim().split(' ')
+		if (name === ref) return sha
+	}
+	return undefined
+}
+
+export function readHead(root: string): GitHead | undefined {
+	const gitDir = resolveGitDir(root)
+	if (!gitDir) return undefined
+	const head = readText(path.join(gitDir, 'HEAD'))?.trim()
+	if (!head) return undefined
+	const ref = /^ref:\s*(.+)$/.exec(head)
+	if (!ref) return { commit: head }
+	return {
+		branch: ref[1].replace(/^refs\/heads\//, ''),
+		commit: readRef(gitDir, ref[1]),
+	}
+}
+
+// Строка reflog: «<старый> <новый> <имя> <<почта>> <время> <пояс>\t<сообщение>»
+export function parseReflogLine(line: string): ReflogEntry | undefined {
+	const tab = line.indexOf('\t')
+	if (tab < 0) return undefined
+	const match = /^([0-9a-f]+) ([0-9a-f]+) .* (\d+) [+-]\d{4}$/.exec(line.slice(0, tab))
+	if (!match) return undefined
+	return {
+		oldCommit: match[1],
+		newCommit: match[2],
+		timestamp: Number(match[3]) * 1000,
+		message: line.slice(tab + 1).trim(),
+	}
+}
+
+export function readLastReflogEntry(root: string): ReflogEntry | undefined {
+	const gitDir = resolveGitDir(root)
+	if (!gitDir) return undefined
+	let fd: number | undefined
+	try {
+		fd = fs.openSync(path.join(gitDir, 'logs', 'HEAD'), 'r')
+		const size = fs.fstatSync(fd).size
+		const length = Math.min(size, REFLOG_TAIL_BYTES)
+		const buffer = Buffer.alloc(length)
+		fs.readSync(fd, buffer, 0, length, size - length)
+		const lines = buffer.toString('utf8').split('\n').filter(Boolean)
+		return lines.length > 0 ? parseReflogLine(lines[lines.length - 1]) : undefined
+	} catch {
+		return undefined
+	} finally {
+		if (fd !== undefined) fs.closeSync(fd)
+	}
+}
+
+// Запись reflog, созданная git commit (в том числе --amend и первый коммит)
+export function isCommitEntry(entry: ReflogEntry): boolean {
+	return /^commit( \([^)]*\))?:/.test(entry.message)
+}
+
+export function commitSubject(entry: ReflogEntry): string {
+	return entry.message.replace(/^commit( \([^)]*\))?:\s*/, '')
+}
+
+export function branchLabel(head: GitHead): string {
+	if (head.branch) return head.branch
+	return head.commit ? `(detached ${head.commit.slice(0, 7)})` : '(unknown)'
+}
@@ -0,0 +1,110 @@
+// src/goals.ts
+// Цели на день и неделю: минуты программирования, символы ручного ввода и
+// наибольшая доля ИИ. Нулевая цель (и доля 100%) отключена
+import { shiftDayKey, weekStartKey } from './days'
+import { DailyStat } from './types'
+
+// Пока символов меньше, доля ИИ не считается превышенной: одна вставка в начале
+// дня дала бы 100%
+const AI_SHARE_MIN_CHARS = 200
+
+export interface GoalTargets {
+	minutes: number
+	manualChars: number
+	// Наибольшая доля ИИ-символов, %; 100 — без ограничения
+	maxAiPercent: number
+}
+
+export type GoalPeriod = 'day' | 'week'
+
+export interface GoalProgress {
+	id: keyof GoalTargets
+	period: GoalPeriod
+	label: string
+	current: number
+	target: number
+	// 0–1; у ограничения доли ИИ — 1, пока доля не выше предела
+	ratio: number
+	// Цель достигнута; у ограничения — предел превышен
+	reached: boolean
+	limit: boolean
+}
+
+export interface PeriodTotals {
+	seconds: number
+	chars: number
+	manualChars: number
+	aiChars: number
+}
+
+// Ключи дней периода, в который входит today: сам день или неделя с понедельника
+export function periodDays(today: string, period: GoalPeriod): string[] {
+	if (period === 'day') return [today]
+	const days: string[] = []
+	for (let key = weekStartKey(today); key <= today; key = shiftDayKey(key, 1)) days.push(key)
+	return days
+}
+
+export function periodTotals(
+	dailyStats: Record<string, DailyStat>,
+	today: string,
+	period: GoalPeriod
+): PeriodTotals {
+	const totals: PeriodTotals = { seconds: 0, chars: 0, manualChars: 0, aiChars: 0 }
+	for (const key of periodDays(today, period)) {
+		const stat = dailyStats[key]
+		if (!stat) continue
+		totals.seconds += stat.totalTime
+		totals.chars += stat.totalChars
+		totals.manualChars += stat.byClassification.manual?.chars || 0
+		totals.aiChars += stat.byClassification.ai?.chars || 0
+	}
+	return totals
+}
+
+export function evaluateGoals(
+	totals: PeriodTotals,
+	targets: GoalTargets,
+	period: GoalPeriod
+): GoalProgress[] {
+	const goals: GoalProgress[] = []
+	if (targets.minutes > 0) {
+		const current = Math.floor(totals.seconds / 60)
+		goals.push({
+			id: 'minutes',
+			period,
+			label: 'Время программирования',
+			current,
+			target: targets.minutes,
+			ratio: Math.min(1, current / targets.minutes),
+			reached: current >= targets.minutes,
+			limit: false,
+		})
+	}
+	if (targets.manualChars > 0) {
+		goals.push({
+			id: 'manualChars',
+			period,
+			label: 'Ручной ввод',
+			current: totals.manualChars,
+			target: targets.manualChars,
+			ratio: Math.min(1, totals.manualChars / targets.manualChars),
+			reached: totals.manualChars >= targets.manualChars,
+			limit: false,
+		})
+	}
+	if (targets.maxAiPercent < 100) {
+		const current = totals.chars > 0 ? Math.round((totals.aiChars / totals.chars) * 100) : 0
+		goals.push({
+			id: 'maxAiPercent',
+			period,
+			label: 'Доля ИИ',
+			current,
+			target: targets.maxAiPercent,
+			ratio: current <= targets.maxAiPercent ? 1 : targets.maxAiPercent / current,
+			reached: totals.chars >= AI_SHARE_MIN_CHARS && current > targets.maxAiPercent,
+			limit: true,
+		})
+	}
+	return goals
+}
@@ -0,0 +1,321 @@
+// src/history.ts
+// История языков и файлов: время и символы по дням. Дни старше
+// codingTracker.history.dailyDays сворачиваются в недели, недели старше
+// codingTracker.history.weeklyDays — в месяцы; месяцы хранятся всё время.
+// По истории строятся ряды по языкам для графиков панели
+import { emptyClassificationStats } from './classifier'
+import { dayCount, dayKey, monthStartKey, shiftDayKey, weekStartKey } from './days'
+import { applyDelta } from './merge'
+import {
+	BucketSize,
+	CodingSession,
+	DailyStat,
+	DayRange,
+	FileTrend,
+	HistoryBucket,
+	LanguageTrend,
+	SeriesPoint,
+	TrendData,
+} from './types'
+
+const SIZES: BucketSize[] = ['day', 'week', 'month']
+// Периоды длиннее показываются по неделям, ещё длиннее — по месяцам
+const MAX_DAILY_DAYS = 92
+const MAX_WEEKLY_DAYS = 730
+// Языки сверх этого числа складываются в один ряд
+const TOP_LANGUAGES = 7
+const TOP_FILES = 10
+
+export interface HistoryOptions {
+	dailyDays: number
+	weeklyDays: number
+}
+
+export function historyKey(size: BucketSize, start: string) {
+	return size + ':' + start
+}
+
+export function emptyBucket(size: BucketSize, start: string): HistoryBucket {
+	return { size, start, languages: {}, files: {} }
+}
+
+// Ключ статистики языка за день: «проект\nязык»; у файлов без проекта проект пустой
+export function languageDayKey(project: string | undefined, language: string) {
+	return (project || '') + '\n' + language
+}
+
+export function splitLanguageDayKey(key: string) {
+	const index = key.lastIndexOf('\n')
+	return { project: key.slice(0, index), language: key.slice(index + 1) }
+}
+
+export function addPoint(
+	points: Record<string, SeriesPoint>,
+	key: string,
+	seconds: number,
+	chars: number
+) {
+	const point = points[key] || (points[key] = { seconds: 0, chars: 0 })
+	point.seconds += seconds
+	point.chars += chars
+}
+
+function nextStart(size: BucketSize, start: string): string {
+	if (size === 'day') return shiftDayKey(start, 1)
+	if (size === 'week') return shiftDayKey(start, 7)
+	return monthStartKey(shiftDayKey(start, 31))
+}
+
+// Последний день корзины включительно
+export function bucketEnd(bucket: { size: BucketSize; start: string }): string {
+	return shiftDayKey(nextStart(bucket.size, bucket.start), -1)
+}
+
+// Корзина следующего размера, в которую попадает корзина. Неделя на стыке
+// месяцев относится к месяцу своего четверга, где у неё больше дней
+function parentStart(size: BucketSize, start: string): string {
+	return size === 'day' ? weekStartKey(start) : monthStartKey(shiftDayKey(start, 3))
+}
+
+// Корзина inner свёрнута бы в outer: дни — в свою неделю, недели — в месяц четверга
+export function bucketContains(outer: HistoryBucket, inner: HistoryBucket): boolean {
+	let { size, start } = inner
+	while (SIZES.indexOf(size) < SIZES.indexOf(outer.size)) {
+		start = parentStart(size, start)
+		size = SIZES[SIZES.indexOf(size) + 1]
+	}
+	return size === outer.size && start === outer.start
+}
+
+export function mergeBucket(target: HistoryBucket, source: HistoryBucket) {
+	for (const [language, point] of Object.entries(source.languages)) {
+		addPoint(target.languages, language, point.seconds, point.chars)
+	}
+	for (const [file, point] of Object.entries(source.files)) {
+		addPoint(target.files, file, point.seconds, point.chars)
+	}
+}
+
+// Сворачивает дни в недели и недели в месяцы. Корзина сворачивается, только
+// когда вся старше порога, чтобы неделя не делилась между днями и неделей.
+// touch вызывается до изменения и удаления каждой корзины
+export function compactHistory(
+	history: Record<string, HistoryBucket>,
+	today: string,
+	options: HistoryOptions,
+	touch: (key: string) => void
+): number {
+	let compacted = 0
+	// Недели, получившиеся из дней, в этом же проходе могут уйти в месяцы
+	for (const size of ['day', 'week'] as const) {
+		const parent = size === 'day' ? 'week' : 'month'
+		const cutoff = shiftDayKey(today, -(size === 'day' ? options.dailyDays : options.weeklyDays))
+		for (const [key, bucket] of Object.entries(history)) {
+			if (bucket.size !== size) continue
+			const start = parentStart(size, bucket.start)
+			if (bucketEnd({ size: parent, start }) >= cutoff) continue
+			const targetKey = historyKey(parent, start)
+			touch(key)
+			touch(targetKey)
+			if (!history[targetKey]) history[targetKey] = emptyBucket(parent, start)
+			mergeBucket(history[targetKey], bucket)
+			delete history[key]
+			compacted++
+		}
+	}
+	return compacted
+}
+
+// История по сохранённым сессиям — для данных, записанных до её появления.
+// Сессия относится к дню своего начала
+export function historyFromSessions(
+	sessions: CodingSession[],
+	dayStartHour: number
+): Record<string, HistoryBucket> {
+	const history: Record<string, HistoryBucket> = {}
+	for (const session of sessions) {
+		const date = dayKey(session.start, dayStartHour)
+		const key = historyKey('day', date)
+		const bucket = history[key] || (history[key] = emptyBucket('day', date))
+		for (const [file, stat] of Object.entries(session.files)) {
+			addPoint(bucket.files, file, stat.seconds, stat.chars)
+			addPoint(bucket.languages, stat.language, stat.seconds, stat.chars)
+		}
+	}
+	return history
+}
+
+// Корзины, задевающие период; свёрнутые в недели и месяцы входят целиком
+function bucketsInRange(history: Record<string, HistoryBucket>, range: DayRange): HistoryBucket[] {
+	return Object.values(history).filter(b => b.start <= range.to && bucketEnd(b) >= range.from)
+}
+
+// Время и символы по языкам и файлам за период
+export function historyTotals(
+	history: Record<string, HistoryBucket>,
+	range: DayRange
+): { languages: Record<string, SeriesPoint>; files: Record<string, SeriesPoint> } {
+	const languages: Record<string, SeriesPoint> = {}
+	const files: Record<string, SeriesPoint> = {}
+	for (const bucket of bucketsInRange(history, range)) {
+		for (const [language, point] of Object.entries(bucket.languages)) {
+			addPoint(languages, language, point.seconds, point.chars)
+		}
+		for (const [file, point] of Object.entries(bucket.files)) {
+			addPoint(files, file, point.seconds, point.chars)
+		}
+	}
+	return { languages, files }
+}
+
+export function emptyDailyStat(date: string): DailyStat {
+	return { date, totalChars: 0, totalTime: 0, byClassification: emptyClassificationStats() }
+}
+
+// Статистика языков дня по времени и вводу его файлов — для дней, записанных
+// до её появления. Категорий, строк и часов в ней нет. fileInfo возвращает
+// undefined для забытых файлов
+export function fillLanguageDays(
+	bucket: HistoryBucket,
+	fileInfo: (file: string) => { project?: string; language: string } | undefined
+) {
+	const days: Record<string, DailyStat> = {}
+	for (const [file, point] of Object.entries(bucket.files)) {
+		const info = fileInfo(file)
+		if (!info) continue
+		const key = languageDayKey(info.project, info.language)
+		const day = days[key] || (days[key] = emptyDailyStat(bucket.start))
+		day.totalTime += point.seconds
+		day.totalChars += point.chars
+	}
+	bucket.days = days
+}
+
+// Дни языка из истории: в выбранном проекте или во всех проектах вместе.
+// Есть только у дней, ещё не свёрнутых в недели
+export function languageDailyStats(
+	history: Record<string, HistoryBucket>,
+	language: string,
+	project?: string
+): Record<string, DailyStat> {
+	const result: Record<string, DailyStat> = {}
+	for (const bucket of Object.values(history)) {
+		for (const [key, day] of Object.entries(bucket.days || {})) {
+			const split = splitLanguageDayKey(key)
+			if (split.language !== language || (project && split.project !== project)) continue
+			const copy: DailyStat = JSON.parse(JSON.stringify(day))
+			if (result[bucket.start]) applyDelta(result[bucket.start], copy)
+			else result[bucket.start] = copy
+		}
+	}
+	return result
+}
+
+// Шаг графика: не мельче самой крупной корзины, задевающей период
+function trendStep(buckets: HistoryBucket[], range: DayRange): BucketSize {
+	const days = dayCount(range.from, range.to)
+	let step = days > MAX_WEEKLY_DAYS ? 2 : days > MAX_DAILY_DAYS ? 1 : 0
+	for (const bucket of buckets) step = Math.max(step, SIZES.indexOf(bucket.size))
+	return SIZES[step]
+}
+
+// Начало шага графика, в который попадает корзина
+function stepStart(step: BucketSize, bucket: { size: BucketSize; start: string }): string {
+	if (step === bucket.size) return bucket.start
+	if (step === 'week') return weekStartKey(bucket.start)
+	return bucket.size === 'day' ? monthStartKey(bucket.start) : parentStart('week', bucket.start)
+}
+
+export interface TrendFilter {
+	// Язык файла по его статистике; undefined — файл уже забыт или удалён
+	fileLanguage(file: string): string | undefined
+	// Выбран проект: ряды языков считаются только по его файлам
+	inProject?(file: string): boolean
+	language?: string
+}
+
+// Ряды по языкам и самые активные файлы периода. Корзины, задевающие
+// период, входят в него целиком
+export function buildTrend(
+	history: Record<string, HistoryBucket>,
+	range: DayRange,
+	filter: TrendFilter
+): TrendData {
+	const buckets = bucketsInRange(history, range)
+	const step = trendStep(buckets, range)
+	const starts: string[] = []
+	for (
+		let start = stepStart(step, { size: 'day', start: range.from });
+		start <= range.to;
+		start = nextStart(step, start)
+	) {
+		starts.push(start)
+	}
+	const index = new Map(starts.map((start, i) => [start, i]))
+	const zeros = () => starts.map(() => 0)
+
+	const languages = new Map<string, LanguageTrend>()
+	const addLanguage = (language: string, i: number, point: SeriesPoint) => {
+		let trend = languages.get(language)
+		if (!trend) {
+			trend = { language, seconds: zeros(), chars: zeros() }
+			languages.set(language, trend)
+		}
+		trend.seconds[i] += point.seconds
+		trend.chars[i] += point.chars
+	}
+	const files = new Map<string, FileTrend & { bySeconds: number[]; byChars: number[] }>()
+
+	for (const bucket of buckets) {
+		const i = index.get(stepStart(step, bucket))
+		if (i === undefined) continue
+		for (const [file, point] of Object.entries(bucket.files)) {
+			const language = filter.fileLanguage(file)
+			if (language === undefined) continue
+			if (filter.inProject && !filter.inProject(file)) continue
+			if (filter.language && language !== filter.language) continue
+			let trend = files.get(file)
+			if (!trend) {
+				trend = { file, language, seconds: 0, chars: 0, peak: '', bySeconds: zeros(), byChars: zeros() }
+				files.set(file, trend)
+			}
+			trend.seconds += point.seconds
+			trend.chars += point.chars
+			trend.bySeconds[i] += point.seconds
+			trend.byChars[i] += point.chars
+			if (filter.inProject) addLanguage(language, i, point)
+		}
+		if (filter.inProject) continue
+		for (const [language, point] of Object.entries(bucket.languages)) {
+			if (filter.language && language !== filter.language) continue
+			addLanguage(language, i, point)
+		}
+	}
+
+	const total = (values: number[]) => values.reduce((a, v) => a + v, 0)
+	const ranked = [...languages.values()]
+		.filter(l => total(l.seconds) > 0 || total(l.chars) > 0)
+		.sort((a, b) => total(b.seconds) - total(a.seconds) || total(b.chars) - total(a.chars))
+	const top = ranked.slice(0, TOP_LANGUAGES)
+	if (ranked.length > TOP_LANGUAGES) {
+		const other: LanguageTrend = { language: '', seconds: zeros(), chars: zeros() }
+		for (const trend of ranked.slice(TOP_LANGUAGES)) {
+			trend.seconds.forEach((v, i) => (other.seconds[i] += v))
+			trend.chars.forEach((v, i) => (other.chars[i] += v))
+		}
+		top.push(other)
+	}
+
+	// Пик — шаг с наибольшим временем, у файла без времени — с наибольшим вводом
+	const argmax = (values: number[]) => values.indexOf(Math.max(...values))
+	const topFiles = [...files.values()]
+		.filter(f => f.seconds > 0 || f.chars > 0)
+		.sort((a, b) => b.seconds - a.seconds || b.chars - a.chars)
+		.slice(0, TOP_FILES)
+		.map(({ bySeconds, byChars, ...f }) => ({
+			...f,
+			peak: starts[f.seconds > 0 ? argmax(bySeconds) : argmax(byChars)],
+		}))
+
+	return { step, starts, languages: top, files: topFiles }
+}
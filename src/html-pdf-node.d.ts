@@ -0,0 +1,16 @@
+// src/html-pdf-node.d.ts
+declare module 'html-pdf-node' {
+	interface PdfFile {
+		content?: string
+		url?: string
+	}
+
+	interface PdfOptions {
+		format?: string
+		printBackground?: boolean
+		margin?: { top?: string; right?: string; bottom?: string; left?: string }
+		args?: string[]
+	}
+
+	export function generatePdf(file: PdfFile, options: PdfOptions): Promise<Buffer>
+}
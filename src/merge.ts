@@ -0,0 +1,58 @@
+// src/merge.ts
+// Сложение записей статистики: приращения между версиями записи и их
+// применение. Используется журналами окон и импортом данных
+
+// Отметки времени: при сложении приращений берётся большее или меньшее значение
+const MAX_FIELDS = new Set(['lastActive', 'lastUpdate', 'since'])
+const MIN_FIELDS = new Set(['firstSeen'])
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Приращение current относительно base: числа вычитаются (массивы чисел —
+// поэлементно), строки и прочие значения берутся из current
+export function diffValue(current: unknown, base: unknown, field = ''): unknown {
+	if (typeof current === 'number') {
+		if (MAX_FIELDS.has(field) || MIN_FIELDS.has(field)) return current
+		return current - (typeof base === 'number' ? base : 0)
+	}
+	if (Array.isArray(current)) {
+		const baseList = Array.isArray(base) ? base : []
+		return current.map((item, i) => diffValue(item, baseList[i]))
+	}
+	if (isObject(current)) {
+		const baseObject = isObject(base) ? base : {}
+		const result: Record<string, unknown> = {}
+		for (const [key, value] of Object.entries(current)) {
+			result[key] = diffValue(value, baseObject[key], key)
+		}
+		return result
+	}
+	return current
+}
+
+// Прибавляет приращение к target на месте; отсутствующие поля считаются нулями
+export function applyDelta(target: unknown, delta: unknown, field = ''): unknown {
+	if (typeof delta === 'number') {
+		if (typeof target !== 'number') return delta
+		if (MAX_FIELDS.has(field)) return Math.max(target, delta)
+		if (MIN_FIELDS.has(field)) return Math.min(target, delta)
+		return target + delta
+	}
+	if (Array.isArray(delta)) {
+		const list: unknown[] = Array.isArray(target) ? target : []
+		delta.forEach((item, i) => {
+			list[i] = applyDelta(list[i], item)
+		})
+		return list
+	}
+	if (isObject(delta)) {
+		const object = isObject(target) ? target : {}
+		for (const [key, value] of Object.entries(delta)) {
+			object[key] = applyDelta(object[key], value, key)
+		}
+		return object
+	}
+	return delta
+}
@@ -0,0 +1,10 @@
+// src/minimatch.d.ts
+declare module 'minimatch' {
+	interface MinimatchOptions {
+		dot?: boolean
+		nocase?: boolean
+	}
+
+	function minimatch(path: string, pattern: string, options?: MinimatchOptions): boolean
+	export = minimatch
+}
@@ -0,0 +1,75 @@
+// src/periods.ts
+// Итоги за произвольный период по дневной статистике и предыдущий период той
+// же длины — для отчёта и сравнения периодов на панели
+import { emptyClassificationStats, fillClassificationStats } from './classifier'
+import { dayCount, dayKey, isDayKey, shiftDayKey } from './days'
+import { Classification, DailyStat, DayRange, PeriodSummary } from './types'
+
+// Период с панели: даты проверяются, перепутанные концы меняются местами
+export function normalizeRange(range: DayRange): DayRange | undefined {
+	if (!isDayKey(range.from) || !isDayKey(range.to)) return undefined
+	return range.from <= range.to ? range : { from: range.to, to: range.from }
+}
+
+// Столько же дней непосредственно перед range
+export function previousRange(range: DayRange): DayRange {
+	return {
+		from: shiftDayKey(range.from, -dayCount(range.from, range.to)),
+		to: shiftDayKey(range.from, -1),
+	}
+}
+
+// Дневная статистика с ключами-датами UTC (записанная до локальных дней).
+// Каждый день переносится по его полудню UTC — на локальную дату, на которую
+// пришлась большая часть суток; дни, попавшие на одну дату, складываются
+export function localDailyStats(
+	utcStats: Record<string, DailyStat>,
+	dayStartHour: number
+): Record<string, DailyStat> {
+	const migrated: Record<string, DailyStat> = {}
+	for (const [key, stat] of Object.entries(utcStats)) {
+		const newKey = dayKey(Date.parse(key + 'T12:00:00Z'), dayStartHour)
+		const target = migrated[newKey]
+		if (!target) {
+			migrated[newKey] = { ...stat, date: newKey }
+			continue
+		}
+		fillClassificationStats(target.byClassification)
+		target.totalChars += stat.totalChars
+		target.totalTime += stat.totalTime
+		target.idleTime = (target.idleTime || 0) + (stat.idleTime || 0)
+		for (const cls of Object.keys(stat.byClassification) as Classification[]) {
+			target.byClassification[cls].chars += stat.byClassification[cls].chars
+			target.byClassification[cls].count += stat.byClassification[cls].count
+		}
+	}
+	return migrated
+}
+
+// Дни периода от новых к старым
+export function daysInRange(dailyStats: Record<string, DailyStat>, range: DayRange): DailyStat[] {
+	return Object.values(dailyStats)
+		.filter(d => d.date >= range.from && d.date <= range.to)
+		.sort((a, b) => b.date.localeCompare(a.date))
+}
+
+export function summarizeDays(days: DailyStat[]): PeriodSummary {
+	const summary: PeriodSummary = {
+		seconds: 0,
+		chars: 0,
+		lines: 0,
+		activeDays: 0,
+		byClassification: emptyClassificationStats(),
+	}
+	for (const day of days) {
+		summary.seconds += day.totalTime
+		summary.chars += day.totalChars
+		if (day.totalChars > 0) summary.activeDays++
+		for (const cls of Object.keys(day.byClassification) as Classification[]) {
+			summary.byClassification[cls].chars += day.byClassification[cls].chars
+			summary.byClassification[cls].count += day.byClassification[cls].count
+		}
+	}
+	summary.lines = Math.round(summary.chars / 50)
+	return summary
+}
@@ -0,0 +1,64 @@
+// src/projects.ts
+// Проект — корень git-репозитория, а если его нет — папка рабочей области
+import * as fs from 'fs'
+import * as path from 'path'
+
+export const NO_PROJECT_ID = '(none)'
+
+export interface ProjectInfo {
+	id: string
+	name: string
+	root: string
+	kind: 'git' | 'workspace' | 'none'
+}
+
+// Кэш «папка → корень репозитория», чтобы не ходить по диску на каждое изменение.
+// Сбрасывается при появлении или удалении .git и смене папок рабочей области
+const gitRootCache = new Map<string, string | null>()
+
+export function clearGitRootCache() {
+	gitRootCache.clear()
+}
+
+export function findGitRoot(dir: string): string | null {
+	const visited: string[] = []
+	let current = dir
+	let result: string | null = null
+	for (;;) {
+		const cached = gitRootCache.get(current)
+		if (cached !== undefined) {
+			result = cached
+			break
+		}
+		visited.push(current)
+		// .git бывает и файлом — у worktree и подмодулей
+		if (fs.existsSync(path.join(current, '.git'))) {
+			result = current
+			break
+		}
+		const parent = path.dirname(current)
+		if (parent === current) break
+		current = parent
+	}
+	for (const dir of visited) gitRootCache.set(dir, result)
+	return result
+}
+
+export function resolveProject(
+	filePath: string,
+	workspaceFolder?: { name: string; fsPath: string }
+): ProjectInfo {
+	const gitRoot = path.isAbsolute(filePath) ? findGitRoot(path.dirname(filePath)) : null
+	if (gitRoot) {
+		return { id: gitRoot, name: path.basename(gitRoot), root: gitRoot, kind: 'git' }
+	}
+	if (workspaceFolder) {
+		return {
+			id: workspaceFolder.fsPath,
+			name: workspaceFolder.name,
+			root: workspaceFolder.fsPath,
+			kind: 'workspace',
+		}
+	}
+	return { id: NO_PROJECT_ID, name: 'Вне проектов', root: '', kind: 'none' }
+}
@@ -0,0 +1,154 @@
+// src/protocol.ts
+// Сообщения между расширением и панелью мониторинга. Модуль общий для обеих
+// сторон и содержит только типы: расширение собирается по tsconfig.json,
+// панель — по src/webview/tsconfig.json
+import {
+	Aggregate,
+	BranchStat,
+	BulkChangeRecord,
+	Classification,
+	CommitRecord,
+	DailyStat,
+	DayRange,
+	ExtraStats,
+	FocusSessionRecord,
+	HourlyHeatmap,
+	PeriodSummary,
+	ProjectStat,
+	SessionDay,
+	SessionFileStat,
+	SnippetRecord,
+	TimeWindowStat,
+	TrendData,
+} from './types'
+
+export interface ClassificationInfo {
+	id: Classification
+	label: string
+	color: string
+}
+
+export interface ProjectSummary {
+	id: string
+	name: string
+	root: string
+	kind: ProjectStat['kind']
+	seconds: number
+	chars: number
+}
+
+export interface BranchSummary extends BranchStat {
+	repoName: string
+	// Ветка сейчас открыта в репозитории
+	current: boolean
+}
+
+export interface CommitSummary extends CommitRecord {
+	repoName: string
+}
+
+export interface GitData {
+	branches: BranchSummary[]
+	commits: CommitSummary[]
+}
+
+export interface FocusTotals {
+	completed: number
+	seconds: number
+}
+
+export interface FocusData {
+	today: FocusTotals
+	week: FocusTotals
+	recent: FocusSessionRecord[]
+	// Идущий сейчас отрезок режима фокуса
+	active?: { phase: string; cycles: number; remaining: number }
+}
+
+export interface DashboardSnippet extends SnippetRecord {
+	// Ключ дня для фильтра по датам
+	day: string
+}
+
+export interface SnippetHistory {
+	enabled: boolean
+	snippets: DashboardSnippet[]
+}
+
+export interface HeatmapDay {
+	date: string
+	value: number
+}
+
+export interface DayFileStat extends SessionFileStat {
+	file: string
+}
+
+// Разбивка одного дня: файлы и языки — из дневной корзины истории, категории —
+// из stat, sessions — число сессий, начавшихся в этот день
+export interface DayDetails {
+	date: string
+	stat?: DailyStat
+	sessions: number
+	files: DayFileStat[]
+	languages: SessionFileStat[]
+}
+
+// Период, выбранный на панели, и его сравнение с предыдущим той же длины
+export interface PeriodData {
+	range: DayRange
+	// false — период по умолчанию (последние 30 дней)
+	custom: boolean
+	compare: boolean
+	current: PeriodSummary
+	previous?: { range: DayRange; summary: PeriodSummary }
+}
+
+// Всё, что показывает панель; карточки строятся по выбранному проекту
+export interface DashboardPayload {
+	store: Aggregate
+	projects: ProjectSummary[]
+	// '' — все проекты
+	selectedProject: string
+	// Языки файлов выбранного проекта
+	languages: string[]
+	// '' — все языки
+	selectedLanguage: string
+	timeWindows: Record<string, TimeWindowStat>
+	extraStats: ExtraStats
+	period: PeriodData
+	// Время и символы по языкам за период
+	trend: TrendData
+	// Дни выбранного периода
+	dailyStats: DailyStat[]
+	heatmapData: HeatmapDay[]
+	hourlyHeatmap: HourlyHeatmap
+	snippetHistory: SnippetHistory
+	bulkChanges: BulkChangeRecord[]
+	git: GitData
+	focus: FocusData
+	sessionDays: SessionDay[]
+	classifications: ClassificationInfo[]
+}
+
+// Расширение → панель
+export type HostMessage =
+	| { command: 'update'; payload: DashboardPayload }
+	| { command: 'day'; payload: DayDetails }
+
+// Панель → расширение
+export type WebviewMessage =
+	// Необязательные поля меняют выбор, отсутствующие — оставляют прежним;
+	// range: null возвращает период по умолчанию
+	| {
+			command: 'requestData'
+			project?: string
+			language?: string
+			range?: DayRange | null
+			compare?: boolean
+	  }
+	| { command: 'requestDay'; date: string }
+	| { command: 'openSnippet'; id: string }
+	| { command: 'openFile'; file: string }
+	// График не создался и показан таблицей; причина пишется в журнал расширения
+	| { command: 'chartError'; chart: string; error: string }
@@ -0,0 +1,222 @@
+// src/report.ts
+import { CLASSIFICATION_INFO, CLASSIFICATIONS } from './classifier'
+import {
+	Classification,
+	DailyStat,
+	ExtraStats,
+	PeriodFile,
+	PeriodLanguage,
+	PeriodSummary,
+	TimeWindowStat,
+} from './types'
+
+export interface ReportData {
+	from: string
+	to: string
+	generatedAt: number
+	summary: PeriodSummary
+	timeWindows: Record<string, TimeWindowStat>
+	extraStats: ExtraStats
+	dailyStats: DailyStat[]
+	// Языки, файлы и папки — за период по истории
+	languages: PeriodLanguage[]
+	topFiles: PeriodFile[]
+	topFolders: { folder: string; seconds: number }[]
+}
+
+export const WINDOW_LABELS: Record<string, string> = {
+	last12h: 'Последние 12 часов',
+	today: 'Сегодня',
+	week: 'За неделю',
+	month: 'За месяц',
+}
+
+const WEEKDAY_LABELS = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс']
+
+export function formatDuration(s: number) {
+	const h = Math.floor(s / 3600)
+	const m = Math.floor((s % 3600) / 60)
+	const sec = Math.round(s % 60)
+	return h > 0 ? `${h}ч ${m}м` : m > 0 ? `${m}м ${sec}с` : `${sec}с`
+}
+
+export function formatNumber(n: number) {
+	return Math.round(n).toLocaleString('ru-RU')
+}
+
+function percent(part: number, total: number) {
+	return total > 0 ? ((part / total) * 100).toFixed(1) : '0'
+}
+
+// Фигурные скобки тоже экранируем: html-pdf-node прогоняет разметку через handlebars
+function escapeHtml(s: string) {
+	return s.replace(
+		/[&<>"'{}]/g,
+		m =>
+			({
+				'&': '&amp;',
+				'<': '&lt;',
+				'>': '&gt;',
+				'"': '&quot;',
+				"'": '&#39;',
+				'{': '&#123;',
+				'}': '&#125;',
+			}[m] as string)
+	)
+}
+
+function classificationTotal(
+	byClassification: Record<Classification, { chars: number; count: number }>
+) {
+	return CLASSIFICATIONS.reduce((sum, cls) => sum + byClassification[cls].chars, 0)
+}
+
+const classificationHeaders = CLASSIFICATIONS.map(
+	cls => `<th>${CLASSIFICATION_INFO[cls].label}</th>`
+).join('')
+
+function renderDailyRows(days: DailyStat[]) {
+	if (days.length === 0) {
+		return `<tr><td colspan="${3 + CLASSIFICATIONS.length}" class="empty">Нет данных за период</td></tr>`
+	}
+	return days
+		.map(day => {
+			const c = day.byClassification
+			const total = classificationTotal(c)
+			return `<tr>
+	<td>${escapeHtml(day.date)}</td>
+	<td>${formatNumber(day.totalChars)}</td>
+	<td>${formatDuration(day.totalTime)}</td>
+	${CLASSIFICATIONS.map(
+		cls => `<td>${formatNumber(c[cls].chars)} (${percent(c[cls].chars, total)}%)</td>`
+	).join('')}
+</tr>`
+		})
+		.join('')
+}
+
+function renderLanguageRows(langs: PeriodLanguage[]) {
+	if (langs.length === 0) {
+		return '<tr><td colspan="3" class="empty">Нет данных</td></tr>'
+	}
+	return langs
+		.map(
+			l => `<tr>
+	<td><strong>${escapeHtml(l.language)}</strong></td>
+	<td>${formatNumber(l.chars)}</td>
+	<td>${formatDuration(Math.round(l.seconds))}</td>
+</tr>`
+		)
+		.join('')
+}
+
+function renderTopList(items: { label: string; seconds: number }[]) {
+	if (items.length === 0) return '<div class="empty">Нет данных</div>'
+	return items
+		.map(
+			it =>
+				`<div class="top-item"><span>${escapeHtml(it.label)}</span><span>${formatDuration(
+					Math.round(it.seconds)
+				)}</span></div>`
+		)
+		.join('')
+}
+
+export function renderReportHtml(data: ReportData): string {
+	const { summary, extraStats } = data
+	const clsTotal = classificationTotal(summary.byClassification)
+	const weekdays = [...extraStats.weekdayCounts.slice(1), extraStats.weekdayCounts[0]]
+
+	const windows = Object.keys(WINDOW_LABELS)
+		.filter(k => data.timeWindows[k])
+		.map(
+			k =>
+				`<div><strong>${WINDOW_LABELS[k]}</strong>: ${formatDuration(
+					data.timeWindows[k].seconds
+				)} — ${formatNumber(data.timeWindows[k].chars)} символов</div>`
+		)
+		.join('')
+
+	return `<!doctype html>
+<html lang="ru">
+<head>
+<meta charset="utf-8" />
+<title>Отчёт Coding Tracker: ${escapeHtml(data.from)} — ${escapeHtml(data.to)}</title>
+<style>
+ body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #1e293b; margin: 24px; font-size: 12px; line-height: 1.5; }
+ h1 { font-size: 20px; margin: 0 0 4px; }
+ h2 { font-size: 14px; margin: 20px 0 8px; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; }
+ .muted { color: #64748b; }
+ .grid { display: flex; gap: 16px; }
+ .grid > div { flex: 1; }
+ .stat { font-size: 18px; font-weight: 700; color: #2563eb; }
+ table { width: 100%; border-collapse: collapse; }
+ th, td { padding: 4px 6px; text-align: left; border-top: 1px solid #e2e8f0; }
+ th { color: #64748b; font-size: 10px; text-transform: uppercase; }
+ tr { page-break-inside: avoid; }
+ .top-item { display: flex; justify-content: space-between; padding: 2px 0; }
+ .empty { color: #94a3b8; text-align: center; }
+</style>
+</head>
+<body>
+ <h1>Отчёт Coding Tracker</h1>
+ <div class="muted">Период: ${escapeHtml(data.from)} — ${escapeHtml(data.to)} · Сформирован ${new Date(
+		data.generatedAt
+	).toLocaleString('ru-RU')}</div>
+
+ <h2>Итоги периода</h2>
+ <div class="grid">
+  <div><div class="stat">${formatDuration(summary.seconds)}</div><div class="muted">Время</div></div>
+  <div><div class="stat">${formatNumber(summary.chars)}</div><div class="muted">Символов</div></div>
+  <div><div class="stat">${formatNumber(summary.lines)}</div><div class="muted">Строк (оценка)</div></div>
+  <div><div class="stat">${formatNumber(summary.activeDays)}</div><div class="muted">Активных дней</div></div>
+ </div>
+ <div style="margin-top: 8px">
+  ${CLASSIFICATIONS.map(cls => {
+		const chars = summary.byClassification[cls].chars
+		return `${CLASSIFICATION_INFO[cls].label}: ${formatNumber(chars)} (${percent(chars, clsTotal)}%)`
+	}).join(' · ')}
+ </div>
+
+ <h2>Отслеживание времени</h2>
+ ${windows}
+
+ <h2>Серии активности</h2>
+ <div>Текущая серия: <strong>${formatNumber(extraStats.currentStreak)}</strong> дней · Максимальная: <strong>${formatNumber(
+		extraStats.maxStreak
+	)}</strong> дней · Всего изменений: <strong>${formatNumber(extraStats.totalEdits)}</strong></div>
+ <div class="muted">Активные дни по дням недели: ${WEEKDAY_LABELS.map(
+		(l, i) => `${l} ${weekdays[i] || 0}`
+	).join(', ')}</div>
+
+ <h2>Статистика по дням</h2>
+ <table>
+  <thead><tr><th>Дата</th><th>Всего символов</th><th>Время</th>${classificationHeaders}</tr></thead>
+  <tbody>${renderDailyRows(data.dailyStats)}</tbody>
+ </table>
+
+ <h2>Языки</h2>
+ <table>
+  <thead><tr><th>Язык</th><th>Символы</th><th>Время</th></tr></thead>
+  <tbody>${renderLanguageRows(data.languages)}</tbody>
+ </table>
+
+ <div class="grid">
+  <div>
+   <h2>Топ-5 файлов</h2>
+   ${renderTopList(
+			data.topFiles.map(f => ({
+				label: f.file.split(/[\\/]/).pop() || f.file,
+				seconds: f.seconds,
+			}))
+		)}
+  </div>
+  <div>
+   <h2>Топ-5 папок</h2>
+   ${renderTopList(data.topFolders.map(f => ({ label: f.folder, seconds: f.seconds })))}
+  </div>
+ </div>
+ <div class="muted" style="margin-top: 12px">Языки, файлы и папки — за выбранный период. Дни, свёрнутые в историю по неделям и месяцам, входят своей неделей или месяцем целиком.</div>
+</body>
+</html>`
+}
@@ -0,0 +1,88 @@
+// src/sessions.ts
+import { dayKey, dayStart } from './days'
+import { Classification, CodingSession, SessionDay, SessionFileStat } from './types'
+
+export function createSession(
+	id: string,
+	start: number,
+	workspace: string
+): CodingSession {
+	return {
+		id,
+		start,
+		end: start,
+		workspace,
+		activeSeconds: 0,
+		chars: 0,
+		byClassification: {},
+		files: {},
+	}
+}
+
+function ensureSessionFile(
+	session: CodingSession,
+	file: string,
+	language: string
+): SessionFileStat {
+	if (!session.files[file]) {
+		session.files[file] = { language, seconds: 0, chars: 0 }
+	}
+	return session.files[file]
+}
+
+export function addSessionTime(
+	session: CodingSession,
+	file: string,
+	language: string,
+	seconds: number,
+	until: number
+) {
+	session.activeSeconds += seconds
+	ensureSessionFile(session, file, language).seconds += seconds
+	session.end = Math.max(session.end, until)
+}
+
+export function addSessionChars(
+	session: CodingSession,
+	file: string,
+	language: string,
+	cls: Classification,
+	chars: number,
+	at: number
+) {
+	session.chars += chars
+	session.byClassification[cls] = (session.byClassification[cls] || 0) + chars
+	ensureSessionFile(session, file, language).chars += chars
+	session.end = Math.max(session.end, at)
+}
+
+// Сессия без времени и без ввода (например, только прокрутка) не интересна
+export function isEmptySession(session: CodingSession) {
+	return session.activeSeconds < 1 && session.chars === 0
+}
+
+export function pruneSessions(sessions: CodingSession[], olderThan: number) {
+	return sessions.filter(s => s.end >= olderThan)
+}
+
+// Сессии за последние дни, сгруппированные по дню начала, от новых к старым
+export function buildSessionTimeline(
+	sessions: CodingSession[],
+	from: number,
+	dayStartHour: number
+): SessionDay[] {
+	const byDay: Record<string, CodingSession[]> = {}
+	for (const s of sessions) {
+		if (s.end < from || isEmptySession(s)) continue
+		const key = dayKey(s.start, dayStartHour)
+		if (!byDay[key]) byDay[key] = []
+		byDay[key].push(s)
+	}
+	return Object.keys(byDay)
+		.sort((a, b) => b.localeCompare(a))
+		.map(date => ({
+			date,
+			start: dayStart(date, dayStartHour),
+			sessions: byDay[date].sort((a, b) => a.start - b.start),
+		}))
+}
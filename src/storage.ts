@@ -0,0 +1,549 @@
+// src/storage.ts
+// Хранилище в globalStorageUri, общее для всех окон VS Code: снимок данных и
+// журналы изменений в формате JSON Lines, по одному на окно. Для счётчиков в
+// журнал пишется приращение с прошлого сохранения, а не итоговое значение,
+// поэтому окна, одновременно работающие в разных репозиториях, складывают
+// данные, а не затирают друг друга. Запись и сжатие идут под блокировкой
+// (каталог lock). Журналы привязаны к поколению снимка: после сжатия другим
+// окном окно видит новое поколение и перечитывает данные
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { applyDelta, diffValue } from './merge'
+import { Aggregate, CodingSession, DailyStat, ProjectStat, SnippetRecord } from './types'
+
+// 1 — данные в globalState (codingTracker.v1 и отдельные ключи сессий и фрагментов)
+// 2 — snapshot.json и один журнал log-<поколение>.jsonl с итоговыми значениями
+// 3 — snapshot-<поколение>.json и журналы окон с приращениями
+export const SCHEMA_VERSION = 3
+
+export interface StoredData {
+	store: Aggregate
+	sessions: CodingSession[]
+	snippets: SnippetRecord[]
+}
+
+export type Collection =
+	| 'files'
+	| 'languages'
+	| 'dailyStats'
+	| 'projects'
+	| 'projectDays'
+	| 'branches'
+	| 'repos'
+	| 'commits'
+	| 'bulkChanges'
+	| 'focusSessions'
+	| 'history'
+	| 'sessions'
+	| 'snippets'
+	| 'meta'
+
+interface Snapshot {
+	schemaVersion: number
+	generation: number
+	savedAt: number
+	data: StoredData
+}
+
+// Запись журнала: d — приращение, v — новое значение; нет ни того ни другого — запись удалена
+interface LogEntry {
+	c: Collection
+	k: string
+	v?: unknown
+	d?: unknown
+}
+
+// Миграции снимка: ключ — версия, из которой переводим данные в следующую
+const MIGRATIONS: Record<number, (data: StoredData) => StoredData> = {
+	// Формат записей не менялся, менялось только место и способ хранения
+	1: data => data,
+	2: data => data,
+}
+
+// Журналы текущего поколения больше этого размера сворачиваются в снимок
+const MAX_LOG_BYTES = 1024 * 1024
+// Блокировку держит другое окно — повторяем sync через это время, не останавливая поток
+const LOCK_RETRY_MS = 200
+// Блокировка старше этого времени осталась от окна, завершившегося аварийно
+const LOCK_STALE_MS = 10000
+
+interface CollectionAccess {
+	// delta — счётчики, которые окна дополняют вместе; put — записи одного окна
+	mode: 'delta' | 'put'
+	get(data: StoredData, key: string): unknown
+	set(data: StoredData, key: string, value: unknown): void
+	// Поля, которые хранятся в другой коллекции и в журнал этой не пишутся
+	omit?: string[]
+}
+
+// Значения из журнала приходят разобранным JSON; их тип задаёт коллекция
+function mapAccess<T>(
+	mode: 'delta' | 'put',
+	getMap: (data: StoredData) => Record<string, T>
+): CollectionAccess {
+	return {
+		mode,
+		get: (data, key) => getMap(data)[key],
+		set: (data, key, value) => {
+			const map = getMap(data)
+			if (value === undefined) delete map[key]
+			else map[key] = value as T
+		},
+	}
+}
+
+// Отдельные поля объекта, записываемые целиком; прочие ключи не трогаются
+function fieldAccess<T extends object, K extends keyof T & string>(
+	getObject: (data: StoredData) => T,
+	fields: readonly K[]
+): CollectionAccess {
+	const known = (key: string): key is K => fields.some(field => field === key)
+	return {
+		mode: 'put',
+		get: (data, key) => (known(key) ? getObject(data)[key] : undefined),
+		set: (data, key, value) => {
+			if (!known(key)) return
+			const object = getObject(data)
+			if (value === undefined) delete object[key]
+			else object[key] = value as T[K]
+		},
+	}
+}
+
+function listAccess(getList: (data: StoredData) => { id: string }[]): CollectionAccess {
+	return {
+		mode: 'put',
+		get: (data, key) => getList(data).find(item => item.id === key),
+		set: (data, key, value) => {
+			const list = getList(data)
+			const index = list.findIndex(item => item.id === key)
+			if (value === undefined) {
+				if (index >= 0) list.splice(index, 1)
+			} else if (index >= 0) {
+				list[index] = value as { id: string }
+			} else {
+				list.push(value as { id: string })
+			}
+		},
+	}
+}
+
+function gitStats(data: StoredData) {
+	if (!data.store.git) data.store.git = { branches: {}, commits: [], repos: {} }
+	return data.store.git
+}
+
+function projects(data: StoredData) {
+	if (!data.store.projects) data.store.projects = {}
+	return data.store.projects
+}
+
+// Ключ дня проекта: «идентификатор проекта\nдата»
+export function projectDayKey(projectId: string, date: string) {
+	return projectId + '\n' + date
+}
+
+function splitProjectDayKey(key: string) {
+	const index = key.lastIndexOf('\n')
+	return { projectId: key.slice(0, index), date: key.slice(index + 1) }
+}
+
+const COLLECTIONS: Record<Collection, CollectionAccess> = {
+	files: mapAccess('delta', data => data.store.files),
+	languages: mapAccess('delta', data => data.store.languages),
+	dailyStats: mapAccess('delta', data => data.store.dailyStats),
+	// Дни проекта пишутся отдельно, чтобы не переписывать всю его историю
+	projects: {
+		mode: 'delta',
+		omit: ['dailyStats'],
+		get: (data, key) => projects(data)[key],
+		set: (data, key, value) => {
+			const map = projects(data)
+			if (value === undefined) {
+				delete map[key]
+				return
+			}
+			map[key] = { ...(value as ProjectStat), dailyStats: map[key]?.dailyStats || {} }
+		},
+	},
+	projectDays: {
+		mode: 'delta',
+		get: (data, key) => {
+			const { projectId, date } = splitProjectDayKey(key)
+			return projects(data)[projectId]?.dailyStats[date]
+		},
+		set: (data, key, value) => {
+			const { projectId, date } = splitProjectDayKey(key)
+			const project = projects(data)[projectId]
+			if (!project) return
+			if (value === undefined) delete project.dailyStats[date]
+			else project.dailyStats[date] = value as DailyStat
+		},
+	},
+	branches: mapAccess('delta', data => gitStats(data).branches),
+	repos: mapAccess('delta', data => gitStats(data).repos),
+	commits: listAccess(data => gitStats(data).commits),
+	bulkChanges: listAccess(data => {
+		if (!data.store.bulkChanges) data.store.bulkChanges = []
+		return data.store.bulkChanges
+	}),
+	focusSessions: listAccess(data => {
+		if (!data.store.focusSessions) data.store.focusSessions = []
+		return data.store.focusSessions
+	}),
+	history: mapAccess('delta', data => {
+		if (!data.store.history) data.store.history = {}
+		return data.store.history
+	}),
+	sessions: listAccess(data => data.sessions),
+	snippets: listAccess(data => data.snippets),
+	meta: fieldAccess((data: StoredData) => data.store, [
+		'lastUpdate',
+		'dayModel',
+		'imports',
+		'importedTotals',
+	]),
+}
+
+// Копия записи для журнала: без полей из omit
+function copyForLog(access: CollectionAccess, value: unknown): unknown {
+	if (value === undefined) return undefined
+	const copy = JSON.parse(JSON.stringify(value))
+	for (const field of access.omit || []) delete copy[field]
+	return copy
+}
+
+function applyEntry(data: StoredData, entry: LogEntry) {
+	const access = COLLECTIONS[entry.c]
+	if (!access) return
+	if (entry.d === undefined) {
+		access.set(data, entry.k, entry.v)
+		return
+	}
+	const target = access.get(data, entry.k)
+	const merged = applyDelta(target, entry.d)
+	if (merged !== target) access.set(data, entry.k, merged)
+}
+
+export interface Storage {
+	// Загружает данные: снимок и журналы, иначе legacy (версия 1), иначе empty
+	load(
+		legacy: StoredData | undefined,
+		empty: StoredData
+	): { data: StoredData; source: 'snapshot' | 'legacy' | 'new' }
+	// Запись сейчас изменится или удалена; вызывается до изменения
+	touch(collection: Collection, key: string): void
+	// Пишет свои изменения и подтягивает изменения других окон. Если другое
+	// окно сжало хранилище, возвращает перечитанные данные — их нужно взять вместо data
+	sync(data: StoredData, compact?: boolean): StoredData
+	// Снимок текущего поколения записан на диск
+	hasSnapshot(): boolean
+}
+
+// retry вызывается, когда sync не получил блокировку и его пора повторить
+export function createStorage(
+	dir: string,
+	log: (message: string) => void,
+	retry: () => void
+): Storage {
+	const windowId = Date.now().toString(36) + Math.random().toString(36).slice(2, 6)
+	const lockPath = path.join(dir, 'lock')
+	const snapshotPath = (generation: number) => path.join(dir, `snapshot-${generation}.json`)
+	const ownLogPath = () => path.join(dir, `log-${generation}-${windowId}.jsonl`)
+	// Записи, изменённые с прошлого sync, и их значения до изменения
+	const dirty = new Map<string, { c: Collection; k: string; base: unknown }>()
+	// Сколько байт журналов других окон уже применено
+	const offsets = new Map<string, number>()
+	let current: StoredData | undefined
+	let generation = 0
+	let logBytes = 0
+	// Сжатие запрошено, но блокировку получить не удалось — сделаем при следующем sync
+	let compactRequested = false
+	let retryTimer: ReturnType<typeof setTimeout> | undefined
+	// Неудачные попытки подряд: в вывод пишется только первая
+	let lockMisses = 0
+
+	// Не ждёт: занятая блокировка — повод повторить позже через scheduleRetry
+	function acquireLock(): boolean {
+		// Вторая попытка — после удаления брошенной блокировки
+		for (let attempt = 0; attempt < 2; attempt++) {
+			try {
+				fs.mkdirSync(dir, { recursive: true })
+				fs.mkdirSync(lockPath)
+				return true
+			} catch (err) {
+				if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+					log(`Cannot lock storage: ${err}`)
+					return false
+				}
+			}
+			try {
+				if (Date.now() - fs.statSync(lockPath).mtimeMs <= LOCK_STALE_MS) return false
+				fs.rmdirSync(lockPath)
+			} catch {
+				// Блокировку только что сняло другое окно
+			}
+		}
+		return false
+	}
+
+	function scheduleRetry() {
+		if (lockMisses++ === 0) log('Storage is locked by another window, will retry')
+		if (retryTimer) return
+		retryTimer = setTimeout(() => {
+			retryTimer = undefined
+			retry()
+		}, LOCK_RETRY_MS)
+	}
+
+	function releaseLock() {
+		try {
+			fs.rmdirSync(lockPath)
+		} catch (err) {
+			log(`Cannot unlock storage: ${err}`)
+		}
+	}
+
+	function listDir(): string[] {
+		try {
+			return fs.readdirSync(dir)
+		} catch {
+			return []
+		}
+	}
+
+	function snapshotGenerations(): number[] {
+		return listDir()
+			.map(name => /^snapshot-(\d+)\.json$/.exec(name))
+			.filter((m): m is RegExpExecArray => m !== null)
+			.map(m => Number(m[1]))
+			.sort((a, b) => b - a)
+	}
+
+	// Журналы поколения: log-<поколение>-<окно>.jsonl, у версии 2 — log-<поколение>.jsonl
+	function logFiles(gen: number): string[] {
+		return listDir().filter(name => new RegExp(`^log-${gen}(-\\w+)?\\.jsonl$`).test(name))
+	}
+
+	function migrate(snapshot: Snapshot): StoredData {
+		if (snapshot.schemaVersion > SCHEMA_VERSION) {
+			log(`Snapshot schema ${snapshot.schemaVersion} is newer than ${SCHEMA_VERSION}`)
+		}
+		for (let version = snapshot.schemaVersion; version < SCHEMA_VERSION; version++) {
+			snapshot.data = MIGRATIONS[version](snapshot.data)
+			log(`Migrated storage schema ${version} → ${version + 1}`)
+		}
+		return snapshot.data
+	}
+
+	// Дочитывает журналы других окон с места, где остановились.
+	// Незавершённая последняя строка остаётся до следующего раза
+	function catchUp(data: StoredData) {
+		const own = path.basename(ownLogPath())
+		let applied = 0
+		for (const name of logFiles(generation)) {
+			if (name === own) continue
+			const offset = offsets.get(name) || 0
+			let text: string
+			try {
+				const fd = fs.openSync(path.join(dir, name), 'r')
+				try {
+					const size = fs.fstatSync(fd).size
+					if (size <= offset) continue
+					const buffer = Buffer.alloc(size - offset)
+					fs.readSync(fd, buffer, 0, buffer.length, offset)
+					text = buffer.toString('utf8')
+				} finally {
+					fs.closeSync(fd)
+				}
+			} catch (err) {
+				log(`Cannot read ${name}: ${err}`)
+				continue
+			}
+			const end = text.lastIndexOf('\n') + 1
+			for (const line of text.slice(0, end).split('\n')) {
+				if (!line) continue
+				try {
+					applyEntry(data, JSON.parse(line) as LogEntry)
+					applied++
+				} catch {
+					log(`Skipped a damaged entry in ${name}`)
+				}
+			}
+			const consumed = Buffer.byteLength(text.slice(0, end))
+			offsets.set(name, offset + consumed)
+			logBytes += consumed
+		}
+		if (applied > 0) log(`Applied ${applied} entries from other windows`)
+	}
+
+	function readGeneration(gen: number): StoredData | undefined {
+		let snapshot: Snapshot
+		try {
+			snapshot = JSON.parse(fs.readFileSync(snapshotPath(gen), 'utf8')) as Snapshot
+		} catch (err) {
+			log(`Cannot read snapshot ${gen}: ${err}`)
+			return undefined
+		}
+		const data = migrate(snapshot)
+		generation = gen
+		offsets.clear()
+		logBytes = 0
+		catchUp(data)
+		return data
+	}
+
+	// Снимок версии 2 и его журнал с итоговыми значениями
+	function readVersion2(): StoredData | undefined {
+		let snapshot: Snapshot
+		try {
+			snapshot = JSON.parse(fs.readFileSync(path.join(dir, 'snapshot.json'), 'utf8'))
+		} catch {
+			return undefined
+		}
+		const data = migrate(snapshot)
+		generation = snapshot.generation
+		catchUp(data)
+		return data
+	}
+
+	function takePending(data: StoredData): LogEntry[] {
+		dirty.set('meta\0lastUpdate', { c: 'meta', k: 'lastUpdate', base: undefined })
+		dirty.set('meta\0dayModel', { c: 'meta', k: 'dayModel', base: undefined })
+		const entries: LogEntry[] = []
+		for (const { c, k, base } of dirty.values()) {
+			const access = COLLECTIONS[c]
+			const value = copyForLog(access, access.get(data, k))
+			if (value === undefined) entries.push({ c, k })
+			else if (access.mode === 'delta') entries.push({ c, k, d: diffValue(value, base) })
+			else entries.push({ c, k, v: value })
+		}
+		dirty.clear()
+		return entries
+	}
+
+	function append(entries: LogEntry[]) {
+		const text = entries.map(entry => JSON.stringify(entry) + '\n').join('')
+		try {
+			fs.appendFileSync(ownLogPath(), text)
+			logBytes += Buffer.byteLength(text)
+		} catch (err) {
+			log(`Cannot append to log: ${err}`)
+		}
+	}
+
+	// Вызывается под блокировкой, когда data уже содержит журналы всех окон
+	function compact(data: StoredData) {
+		const next = generation + 1
+		const snapshot: Snapshot = {
+			schemaVersion: SCHEMA_VERSION,
+			generation: next,
+			savedAt: Date.now(),
+			data,
+		}
+		try {
+			// Снимок заменяется атомарно: запись во временный файл и переименование
+			const tmpPath = snapshotPath(next) + '.tmp'
+			fs.writeFileSync(tmpPath, JSON.stringify(snapshot))
+			fs.renameSync(tmpPath, snapshotPath(next))
+		} catch (err) {
+			log(`Cannot write snapshot: ${err}`)
+			return
+		}
+		generation = next
+		offsets.clear()
+		logBytes = 0
+		compactRequested = false
+		// Предыдущий снимок остаётся запасным на случай повреждения нового
+		for (const name of listDir()) {
+			const match = /^(?:snapshot|log)-(\d+)/.exec(name)
+			const old = match
+				? Number(match[1]) < next - 1 || (name.startsWith('log-') && Number(match[1]) < next)
+				: name === 'snapshot.json'
+			if (!old) continue
+			try {
+				fs.rmSync(path.join(dir, name), { force: true })
+			} catch (err) {
+				log(`Cannot remove ${name}: ${err}`)
+			}
+		}
+	}
+
+	function load(legacy: StoredData | undefined, empty: StoredData) {
+		let data: StoredData | undefined
+		let source: 'snapshot' | 'legacy' | 'new' = 'snapshot'
+		const locked = acquireLock()
+		try {
+			// Новый снимок повреждён — берём предыдущий; его журналы уже удалены
+			for (const gen of snapshotGenerations()) {
+				data = readGeneration(gen)
+				if (data) break
+			}
+			if (!data) {
+				data = readVersion2()
+				if (!data && legacy) {
+					data = migrate({ schemaVersion: 1, generation: 0, savedAt: Date.now(), data: legacy })
+					source = 'legacy'
+				}
+				if (!data) {
+					data = empty
+					source = 'new'
+				}
+				if (locked) compact(data)
+			}
+		} finally {
+			if (locked) releaseLock()
+		}
+		current = data
+		return { data, source }
+	}
+
+	function touch(collection: Collection, key: string) {
+		const id = collection + '\0' + key
+		if (dirty.has(id) || !current) return
+		const access = COLLECTIONS[collection]
+		dirty.set(id, {
+			c: collection,
+			k: key,
+			base: access.mode === 'delta' ? copyForLog(access, access.get(current, key)) : undefined,
+		})
+	}
+
+	function sync(data: StoredData, forceCompact = false): StoredData {
+		current = data
+		compactRequested = compactRequested || forceCompact
+		// Хранилище занято другим окном — изменения останутся до повторного sync
+		if (!acquireLock()) {
+			scheduleRetry()
+			return data
+		}
+		lockMisses = 0
+		try {
+			const pending = takePending(data)
+			const latest = snapshotGenerations()[0]
+			if (latest !== undefined && latest !== generation) {
+				// Другое окно сжало хранилище: берём новый снимок и добавляем свои изменения
+				const reloaded = readGeneration(latest)
+				if (reloaded) {
+					for (const entry of pending) applyEntry(reloaded, entry)
+					data = reloaded
+				}
+			} else {
+				catchUp(data)
+			}
+			append(pending)
+			if (compactRequested || logBytes > MAX_LOG_BYTES) compact(data)
+		} finally {
+			releaseLock()
+		}
+		current = data
+		return data
+	}
+
+	function hasSnapshot() {
+		return generation > 0 && fs.existsSync(snapshotPath(generation))
+	}
+
+	return { load, touch, sync, hasSnapshot }
+}
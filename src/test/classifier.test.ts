@@ -0,0 +1,36 @@
+// src/test/classifier.test.ts
+import * as assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+	classifyChange,
+	DEFAULT_CLASSIFIER_OPTIONS,
+	inlineCompletionRule,
+} from '../classifier'
+import { RECORDED_CHANGES } from './fixtures/changes'
+
+describe('classifyChange', () => {
+	for (const { name, change, expected } of RECORDED_CHANGES) {
+		it(name, () => {
+			assert.equal(classifyChange(change), expected)
+		})
+	}
+})
+
+describe('inlineCompletionRule', () => {
+	const accepted = RECORDED_CHANGES.find(r => r.name === 'принятое inline-предложение после набора')!
+
+	it('учитывает окно после нажатия клавиши из настроек', () => {
+		const options = { ...DEFAULT_CLASSIFIER_OPTIONS, aiAcceptWindowMs: 500 }
+		assert.equal(inlineCompletionRule.classify(accepted.change, options), undefined)
+	})
+
+	it('не срабатывает без прочитанного буфера обмена', () => {
+		const change = { ...accepted.change, clipboard: undefined }
+		assert.equal(inlineCompletionRule.classify(change, DEFAULT_CLASSIFIER_OPTIONS), undefined)
+	})
+
+	it('не срабатывает на вставку короче aiMinChars', () => {
+		const change = { ...accepted.change, text: accepted.change.text.slice(0, 20) }
+		assert.equal(inlineCompletionRule.classify(change, DEFAULT_CLASSIFIER_OPTIONS), undefined)
+	})
+})
@@ -0,0 +1,81 @@
+// src/test/exchange.test.ts
+import * as assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { buildExport, mergeExport, parseExport } from '../exchange'
+import { addPoint, emptyBucket, historyKey } from '../history'
+import { createSession } from '../sessions'
+import { StoredData } from '../storage'
+import { dailyStat, emptyData, fileStat, languageStat } from './fixtures/data'
+
+const FILE = '/ws/src/a.ts'
+
+function sampleData(seconds: number, chars: number): StoredData {
+	const data = emptyData()
+	data.store.files[FILE] = fileStat(FILE, 'typescript', seconds, chars)
+	data.store.languages.typescript = languageStat('typescript', seconds, chars)
+	data.store.dailyStats['2024-05-01'] = dailyStat('2024-05-01', seconds, chars)
+	const bucket = emptyBucket('day', '2024-05-01')
+	addPoint(bucket.files, FILE, seconds, chars)
+	addPoint(bucket.languages, 'typescript', seconds, chars)
+	data.store.history = { [historyKey('day', bucket.start)]: bucket }
+	data.sessions.push(createSession('s1', Date.parse('2024-05-01T10:00:00'), 'ws'))
+	return data
+}
+
+// Выгрузка проходит через JSON так же, как через файл
+function exported(data: StoredData, exportId: string, source: string, range?: { from: string; to: string }) {
+	const file = buildExport(data, { exportId, source, range, dayStartHour: 0 })
+	return parseExport(JSON.stringify(file))
+}
+
+describe('выгрузка и импорт', () => {
+	it('полная выгрузка с другой машины переносится в пустые данные без потерь', () => {
+		const data = sampleData(100, 10)
+		const target = emptyData()
+		const result = mergeExport(target, exported(data, 'e1', 'laptop'), 'desktop')
+
+		assert.deepEqual(target.store.files, data.store.files)
+		assert.deepEqual(target.store.languages, data.store.languages)
+		assert.deepEqual(target.store.dailyStats, data.store.dailyStats)
+		assert.deepEqual(target.store.history, data.store.history)
+		assert.deepEqual(target.sessions, data.sessions)
+		assert.equal(result.days, 1)
+		assert.equal(result.skipped, 0)
+	})
+
+	it('следующая выгрузка той же машины добавляет только прибавившееся', () => {
+		const target = emptyData()
+		target.store.files[FILE] = fileStat(FILE, 'typescript', 10, 1)
+		mergeExport(target, exported(sampleData(100, 10), 'e1', 'laptop'), 'desktop')
+		mergeExport(target, exported(sampleData(150, 12), 'e2', 'laptop'), 'desktop')
+
+		assert.equal(target.store.files[FILE].timeSeconds, 160)
+		assert.equal(target.store.files[FILE].chars, 13)
+		assert.equal(target.store.dailyStats['2024-05-01'].totalTime, 150)
+		assert.equal(target.sessions.length, 1)
+	})
+
+	it('резервная копия этой же машины не удваивает данные', () => {
+		const data = sampleData(100, 10)
+		const result = mergeExport(data, exported(data, 'e1', 'desktop'), 'desktop')
+		assert.equal(data.store.files[FILE].timeSeconds, 100)
+		assert.equal(data.store.dailyStats['2024-05-01'].totalTime, 100)
+		assert.ok(result.skipped > 0)
+		assert.equal(result.records, 0)
+	})
+
+	it('выгрузка за период несёт только его дни и не несёт итогов за всё время', () => {
+		const data = sampleData(100, 10)
+		data.store.dailyStats['2024-06-01'] = dailyStat('2024-06-01', 5, 0)
+		const file = exported(data, 'e1', 'laptop', { from: '2024-06-01', to: '2024-06-30' })
+		assert.deepEqual(Object.keys(file.data.store.dailyStats), ['2024-06-01'])
+		assert.deepEqual(file.data.store.files, {})
+		assert.deepEqual(file.data.store.history, {})
+		assert.deepEqual(file.data.sessions, [])
+	})
+
+	it('отвергает чужой файл', () => {
+		assert.throws(() => parseExport('{"format":"other"}'), /не является выгрузкой/)
+		assert.throws(() => parseExport('not json'), /корректным JSON/)
+	})
+})
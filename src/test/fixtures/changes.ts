@@ -0,0 +1,135 @@
+// src/test/fixtures/changes.ts
+// Изменения, записанные в редакторе, с ожидаемой категорией. Поля — как их
+// собирает handleDocumentChange; буфер обмена у всех, кроме отдельно
+// отмеченных, прочитан и не совпадает со вставкой
+import { ChangeEvent } from '../../classifier'
+import { Classification } from '../../types'
+
+export interface RecordedChange {
+	name: string
+	change: ChangeEvent
+	expected: Classification
+}
+
+const CLIPBOARD = 'const unrelated = true'
+
+function recorded(fields: Partial<ChangeEvent> & { text: string }): ChangeEvent {
+	return {
+		rangeLength: 0,
+		multiLineRange: false,
+		changeCount: 1,
+		eventChars: fields.text.length,
+		sameTextInAllChanges: true,
+		sinceLastChange: 400,
+		duringSave: false,
+		clipboard: CLIPBOARD,
+		typedWord: '',
+		atCursor: true,
+		sinceTyping: 400,
+		...fields,
+	}
+}
+
+const SUGGESTION = "items.filter(item => item.enabled).map(item => item.id).join(', ')"
+
+export const RECORDED_CHANGES: RecordedChange[] = [
+	{
+		name: 'нажатие клавиши',
+		change: recorded({ text: 'a', sinceLastChange: 180, sinceTyping: 180 }),
+		expected: 'manual',
+	},
+	{
+		name: 'принятое inline-предложение после набора',
+		change: recorded({ text: SUGGESTION, sinceTyping: 900 }),
+		expected: 'ai',
+	},
+	{
+		name: 'inline-предложение заменяет набранное начало строки',
+		change: recorded({ text: 'return ' + SUGGESTION, rangeLength: 3, sinceTyping: 1200 }),
+		expected: 'ai',
+	},
+	{
+		name: 'длинная вставка в позицию курсора без набора перед ней',
+		change: recorded({ text: SUGGESTION, sinceLastChange: 60000, sinceTyping: 60000 }),
+		expected: 'manual',
+	},
+	{
+		name: 'вставка в документ, где ещё не печатали',
+		change: recorded({ text: SUGGESTION, sinceTyping: Infinity }),
+		expected: 'manual',
+	},
+	{
+		name: 'перевод строки с автоотступом в 60 пробелов',
+		change: recorded({ text: '\n' + ' '.repeat(60), sinceLastChange: 150, sinceTyping: 150 }),
+		expected: 'manual',
+	},
+	{
+		name: 'автоотступ сразу после быстрого набора',
+		change: recorded({ text: '\r\n' + '\t'.repeat(52), sinceLastChange: 40, sinceTyping: 40 }),
+		expected: 'manual',
+	},
+	{
+		name: 'быстрое исправление добавляет импорт в начало файла',
+		change: recorded({
+			text: "import { readFileSync, writeFileSync } from 'node:fs'\n",
+			atCursor: false,
+			sinceTyping: 2000,
+		}),
+		expected: 'manual',
+	},
+	{
+		name: 'потоковая правка агента',
+		change: recorded({ text: SUGGESTION, atCursor: false, sinceLastChange: 30, sinceTyping: 8000 }),
+		expected: 'ai',
+	},
+	{
+		name: 'вставка из буфера обмена',
+		change: recorded({ text: SUGGESTION, clipboard: SUGGESTION }),
+		expected: 'paste',
+	},
+	{
+		name: 'вставка из буфера обмена с другими переводами строк',
+		change: recorded({ text: 'first line\nsecond line', clipboard: 'first line\r\nsecond line' }),
+		expected: 'paste',
+	},
+	{
+		name: 'буфер обмена недоступен, крупная вставка',
+		change: recorded({ text: 'x'.repeat(120), clipboard: undefined }),
+		expected: 'paste',
+	},
+	{
+		name: 'ввод в три курсора',
+		change: recorded({ text: 'const ', changeCount: 3, eventChars: 18 }),
+		expected: 'manual',
+	},
+	{
+		name: 'форматтер правит несколько мест',
+		change: recorded({ text: '  ', changeCount: 4, sameTextInAllChanges: false }),
+		expected: 'format',
+	},
+	{
+		name: 'format on save',
+		change: recorded({ text: SUGGESTION, duringSave: true }),
+		expected: 'format',
+	},
+	{
+		name: 'отмена',
+		change: recorded({ text: SUGGESTION, reason: 'undo' }),
+		expected: 'undo',
+	},
+	{
+		name: 'сниппет заменяет набранный префикс',
+		change: recorded({
+			text: 'for (let i = 0; i < array.length; i++) {\n\t\n}',
+			rangeLength: 3,
+			typedWord: 'for',
+			sinceTyping: 300,
+		}),
+		expected: 'manual',
+	},
+	{
+		name: 'генерация файла целиком',
+		change: recorded({ text: 'x'.repeat(6000), atCursor: false, sinceTyping: Infinity }),
+		expected: 'bulk',
+	},
+]
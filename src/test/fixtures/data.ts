@@ -0,0 +1,35 @@
+// src/test/fixtures/data.ts
+// Небольшие данные расширения для тестов хранилища, истории и выгрузок
+import { emptyClassificationStats } from '../../classifier'
+import { StoredData } from '../../storage'
+import { DailyStat, FileStat, LanguageStat } from '../../types'
+
+export function emptyData(): StoredData {
+	return {
+		store: { files: {}, languages: {}, dailyStats: {}, lastUpdate: 0, dayModel: 1 },
+		sessions: [],
+		snippets: [],
+	}
+}
+
+export function fileStat(file: string, language: string, timeSeconds: number, chars: number): FileStat {
+	return {
+		file,
+		folder: 'ws:src',
+		language,
+		timeSeconds,
+		chars,
+		lines: 0,
+		byClassification: emptyClassificationStats(),
+	}
+}
+
+export function languageStat(language: string, timeSeconds: number, chars: number): LanguageStat {
+	return { language, timeSeconds, chars, lines: 0, byClassification: emptyClassificationStats() }
+}
+
+export function dailyStat(date: string, totalTime: number, manualChars: number): DailyStat {
+	const byClassification = emptyClassificationStats()
+	byClassification.manual = { chars: manualChars, count: manualChars > 0 ? 1 : 0 }
+	return { date, totalTime, totalChars: manualChars, byClassification }
+}
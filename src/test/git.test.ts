@@ -0,0 +1,109 @@
+// src/test/git.test.ts
+import * as assert from 'node:assert/strict'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { after, before, describe, it } from 'node:test'
+import {
+	branchLabel,
+	commitSubject,
+	isCommitEntry,
+	readHead,
+	readLastReflogEntry,
+} from '../git'
+
+const FIRST = 'a'.repeat(40)
+const SECOND = 'b'.repeat(40)
+const ZERO = '0'.repeat(40)
+
+function reflogLine(from: string, to: string, seconds: number, message: string) {
+	return `${from} ${to} Dev <dev@example.com> ${seconds} +0300\t${message}\n`
+}
+
+describe('git', () => {
+	let root: string
+	const gitFile = (...parts: string[]) => path.join(root, '.git', ...parts)
+	const write = (file: string, text: string) => {
+		fs.mkdirSync(path.dirname(file), { recursive: true })
+		fs.writeFileSync(file, text)
+	}
+
+	before(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-test-'))
+		write(gitFile('HEAD'), 'ref: refs/heads/main\n')
+		write(gitFile('refs', 'heads', 'main'), SECOND + '\n')
+	})
+
+	after(() => {
+		fs.rmSync(root, { recursive: true, force: true })
+	})
+
+	it('читает ветку и коммит HEAD', () => {
+		const head = readHead(root)
+		assert.deepEqual(head, { branch: 'main', commit: SECOND })
+		assert.equal(branchLabel(head!), 'main')
+	})
+
+	it('новая ветка на том же коммите меняет только ветку', () => {
+		write(gitFile('refs', 'heads', 'feature'), SECOND + '\n')
+		write(gitFile('HEAD'), 'ref: refs/heads/feature\n')
+		const head = readHead(root)!
+		assert.equal(head.commit, SECOND)
+		assert.equal(branchLabel(head), 'feature')
+		write(gitFile('HEAD'), 'ref: refs/heads/main\n')
+	})
+
+	it('берёт коммит ветки из packed-refs', () => {
+		write(gitFile('packed-refs'), `# pack-refs with: peeled\n${FIRST} refs/heads/packed\n`)
+		write(gitFile('HEAD'), 'ref: refs/heads/packed\n')
+		assert.deepEqual(readHead(root), { branch: 'packed', commit: FIRST })
+		write(gitFile('HEAD'), 'ref: refs/heads/main\n')
+	})
+
+	it('у detached HEAD нет ветки, а в подписи — начало коммита', () => {
+		write(gitFile('HEAD'), FIRST + '\n')
+		const head = readHead(root)!
+		assert.deepEqual(head, { commit: FIRST })
+		assert.equal(branchLabel(head), '(detached aaaaaaa)')
+		write(gitFile('HEAD'), 'ref: refs/heads/main\n')
+	})
+
+	it('без reflog последней записи нет', () => {
+		assert.equal(readLastReflogEntry(root), undefined)
+	})
+
+	it('читает последнюю запись reflog', () => {
+		write(
+			gitFile('logs', 'HEAD'),
+			reflogLine(ZERO, FIRST, 1700000000, 'commit (initial): Первый коммит') +
+				reflogLine(FIRST, SECOND, 1700000100, 'commit: Второй коммит')
+		)
+		const entry = readLastReflogEntry(root)!
+		assert.deepEqual(entry, {
+			oldCommit: FIRST,
+			newCommit: SECOND,
+			timestamp: 1700000100 * 1000,
+			message: 'commit: Второй коммит',
+		})
+		assert.equal(isCommitEntry(entry), true)
+		assert.equal(commitSubject(entry), 'Второй коммит')
+	})
+
+	it('переключение ветки в reflog коммитом не считается', () => {
+		fs.appendFileSync(
+			gitFile('logs', 'HEAD'),
+			reflogLine(SECOND, SECOND, 1700000200, 'checkout: moving from main to feature')
+		)
+		assert.equal(isCommitEntry(readLastReflogEntry(root)!), false)
+	})
+
+	it('без .git репозитория нет', () => {
+		const plain = fs.mkdtempSync(path.join(os.tmpdir(), 'git-test-'))
+		try {
+			assert.equal(readHead(plain), undefined)
+			assert.equal(readLastReflogEntry(plain), undefined)
+		} finally {
+			fs.rmSync(plain, { recursive: true, force: true })
+		}
+	})
+})
@@ -0,0 +1,34 @@
+// src/test/history.test.ts
+import * as assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { addPoint, compactHistory, emptyBucket, historyKey, historyTotals } from '../history'
+import { HistoryBucket } from '../types'
+
+function day(start: string, seconds: number, chars: number): HistoryBucket {
+	const bucket = emptyBucket('day', start)
+	addPoint(bucket.languages, 'typescript', seconds, chars)
+	addPoint(bucket.files, '/ws/a.ts', seconds, chars)
+	return bucket
+}
+
+describe('compactHistory', () => {
+	it('сворачивает старые недели целиком и сохраняет итоги', () => {
+		const history: Record<string, HistoryBucket> = {}
+		// Понедельник 2024-01-01 — начало недели; 2024-01-08 — следующая
+		for (const bucket of [day('2024-01-01', 60, 1), day('2024-01-07', 30, 2), day('2024-01-08', 10, 4)]) {
+			history[historyKey('day', bucket.start)] = bucket
+		}
+		const touched: string[] = []
+		const compacted = compactHistory(history, '2024-01-15', { dailyDays: 7, weeklyDays: 365 }, key =>
+			touched.push(key)
+		)
+
+		assert.equal(compacted, 2)
+		assert.deepEqual(Object.keys(history).sort(), ['day:2024-01-08', 'week:2024-01-01'])
+		assert.deepEqual(history['week:2024-01-01'].languages.typescript, { seconds: 90, chars: 3 })
+		assert.ok(touched.includes('day:2024-01-01') && touched.includes('week:2024-01-01'))
+
+		const totals = historyTotals(history, { from: '2024-01-01', to: '2024-01-31' })
+		assert.deepEqual(totals.files['/ws/a.ts'], { seconds: 100, chars: 7 })
+	})
+})
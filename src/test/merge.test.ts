@@ -0,0 +1,26 @@
+// src/test/merge.test.ts
+import * as assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { applyDelta, diffValue } from '../merge'
+
+describe('diffValue и applyDelta', () => {
+	it('приращение, прибавленное к версии другого окна, складывает работу обоих', () => {
+		const base = { chars: 10, hours: [1, 2], language: 'ts' }
+		const mine = { chars: 15, hours: [1, 5], language: 'ts' }
+		const theirs = { chars: 12, hours: [3, 2], language: 'ts' }
+		applyDelta(theirs, diffValue(mine, base))
+		assert.deepEqual(theirs, { chars: 17, hours: [3, 5], language: 'ts' })
+	})
+
+	it('отметки времени не складываются, а берутся большая или меньшая', () => {
+		const target = { lastActive: 500, firstSeen: 100, since: 300 }
+		applyDelta(target, diffValue({ lastActive: 400, firstSeen: 50, since: 900 }, {}))
+		assert.deepEqual(target, { lastActive: 500, firstSeen: 50, since: 900 })
+	})
+
+	it('строки заменяются, отсутствующие поля считаются нулями', () => {
+		const target: Record<string, unknown> = { branch: 'main' }
+		applyDelta(target, diffValue({ branch: 'feature', seconds: 30 }, { branch: 'main' }))
+		assert.deepEqual(target, { branch: 'feature', seconds: 30 })
+	})
+})
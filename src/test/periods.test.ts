@@ -0,0 +1,34 @@
+// src/test/periods.test.ts
+// Перенос дней UTC зависит от пояса: у Новой Зеландии полдень UTC — уже
+// следующая дата, а в ночь перехода с летнего времени два дня UTC попадают на одну
+process.env.TZ = 'Pacific/Auckland'
+
+import * as assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { localDailyStats } from '../periods'
+import { dailyStat } from './fixtures/data'
+
+describe('localDailyStats', () => {
+	it('переносит день UTC на локальную дату его полудня', () => {
+		const migrated = localDailyStats({ '2024-03-01': dailyStat('2024-03-01', 60, 5) }, 0)
+		assert.deepEqual(Object.keys(migrated), ['2024-03-02'])
+		assert.equal(migrated['2024-03-02'].date, '2024-03-02')
+		assert.equal(migrated['2024-03-02'].totalTime, 60)
+	})
+
+	it('складывает дни, попавшие на одну локальную дату', () => {
+		const migrated = localDailyStats(
+			{
+				'2024-04-06': { ...dailyStat('2024-04-06', 60, 5), idleTime: 10 },
+				'2024-04-07': dailyStat('2024-04-07', 30, 2),
+			},
+			1
+		)
+		assert.deepEqual(Object.keys(migrated), ['2024-04-07'])
+		const day = migrated['2024-04-07']
+		assert.equal(day.totalTime, 90)
+		assert.equal(day.totalChars, 7)
+		assert.equal(day.idleTime, 10)
+		assert.deepEqual(day.byClassification.manual, { chars: 7, count: 2 })
+	})
+})
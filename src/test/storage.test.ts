@@ -0,0 +1,112 @@
+// src/test/storage.test.ts
+import * as assert from 'node:assert/strict'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { createSession } from '../sessions'
+import { createStorage, StoredData } from '../storage'
+import { emptyData, fileStat } from './fixtures/data'
+
+const FILE = '/ws/src/a.ts'
+
+describe('createStorage', () => {
+	let dir: string
+	const open = () => createStorage(dir, () => {}, () => {})
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'))
+	})
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	// Окно записывает правку так же, как расширение: touch до изменения
+	function addChars(storage: ReturnType<typeof open>, data: StoredData, chars: number) {
+		storage.touch('files', FILE)
+		const stat = data.store.files[FILE] || (data.store.files[FILE] = fileStat(FILE, 'typescript', 0, 0))
+		stat.chars += chars
+	}
+
+	it('новое хранилище сразу получает снимок', () => {
+		const storage = open()
+		const { source } = storage.load(undefined, emptyData())
+		assert.equal(source, 'new')
+		assert.equal(storage.hasSnapshot(), true)
+	})
+
+	it('окна складывают приращения, а не затирают друг друга', () => {
+		const a = open()
+		let dataA = a.load(undefined, emptyData()).data
+		const b = open()
+		let dataB = b.load(undefined, emptyData()).data
+
+		addChars(a, dataA, 10)
+		dataA = a.sync(dataA)
+		addChars(b, dataB, 5)
+		dataB = b.sync(dataB)
+		assert.equal(dataB.store.files[FILE].chars, 15)
+
+		dataA = a.sync(dataA)
+		assert.equal(dataA.store.files[FILE].chars, 15)
+	})
+
+	it('после сжатия другим окном берёт новый снимок и добавляет свои изменения', () => {
+		const a = open()
+		let dataA = a.load(undefined, emptyData()).data
+		const b = open()
+		let dataB = b.load(undefined, emptyData()).data
+
+		addChars(a, dataA, 10)
+		dataA = a.sync(dataA)
+		addChars(b, dataB, 5)
+		dataB = b.sync(dataB)
+		addChars(a, dataA, 3)
+		dataA = a.sync(dataA, true)
+		assert.equal(dataA.store.files[FILE].chars, 18)
+
+		addChars(b, dataB, 1)
+		dataB = b.sync(dataB)
+		assert.equal(dataB.store.files[FILE].chars, 19)
+
+		const { data } = open().load(undefined, emptyData())
+		assert.equal(data.store.files[FILE].chars, 19)
+	})
+
+	it('удаление записи переживает сжатие', () => {
+		const a = open()
+		let dataA = a.load(undefined, emptyData()).data
+		const session = createSession('s1', 1000, 'ws')
+		a.touch('sessions', session.id)
+		dataA.sessions.push(session)
+		dataA = a.sync(dataA)
+
+		const b = open()
+		let dataB = b.load(undefined, emptyData()).data
+		assert.deepEqual(
+			dataB.sessions.map(s => s.id),
+			['s1']
+		)
+
+		a.touch('sessions', session.id)
+		dataA.sessions = []
+		dataA = a.sync(dataA, true)
+		dataB = b.sync(dataB)
+		assert.deepEqual(dataB.sessions, [])
+	})
+
+	it('данные версии 1 переносятся в снимок', () => {
+		const legacy = emptyData()
+		legacy.store.files[FILE] = fileStat(FILE, 'typescript', 60, 7)
+		const storage = open()
+		const { data, source } = storage.load(legacy, emptyData())
+		assert.equal(source, 'legacy')
+		assert.equal(storage.hasSnapshot(), true)
+		assert.equal(data.store.files[FILE].chars, 7)
+
+		const reopened = open().load(undefined, emptyData())
+		assert.equal(reopened.source, 'snapshot')
+		assert.equal(reopened.data.store.files[FILE].timeSeconds, 60)
+	})
+})
@@ -0,0 +1,304 @@
+// src/types.ts
+
+export type Classification = 'manual' | 'paste' | 'ai' | 'format' | 'undo' | 'bulk'
+
+export interface SnippetRecord {
+	id: string
+	file: string
+	folder: string
+	language: string
+	text: string
+	classification: Classification
+	timestamp: number
+	chars: number
+	lines: number
+	// Позиция начала вставки в документе
+	line?: number
+	character?: number
+	// Текст обрезан до codingTracker.snippets.maxChars
+	truncated?: boolean
+}
+
+// Удаления и правки отменой/повтором; chars и lines у статистик — добавленное.
+// lines считает строки вставок (текст без перевода строки — одна строка), поэтому
+// баланс строк считается по addedLines — переводам строк во вставках
+export interface ChurnStat {
+	removedChars: number
+	removedLines: number
+	// У записей, сделанных до его появления, нет
+	addedLines?: number
+	undoRedo: { count: number; addedChars: number; removedChars: number }
+}
+
+// Крупное изменение за одно событие (больше codingTracker.bulkThresholdChars)
+export interface BulkChangeRecord {
+	id: string
+	file: string
+	folder: string
+	language: string
+	chars: number
+	lines: number
+	timestamp: number
+	// Категория, которую изменение получило бы без правила массовых правок
+	origin: Classification
+}
+
+export interface FileStat {
+	file: string
+	folder: string
+	language: string
+	timeSeconds: number
+	chars: number
+	lines: number
+	byClassification: Record<Classification, { chars: number; count: number }>
+	churn?: ChurnStat
+	lastActive?: number
+	// Идентификатор проекта (ключ Aggregate.projects); у записей старых версий может не быть
+	project?: string
+}
+
+export interface LanguageStat {
+	language: string
+	chars: number
+	lines: number
+	timeSeconds: number
+	byClassification: Record<Classification, { chars: number; count: number }>
+	churn?: ChurnStat
+}
+
+export interface DailyStat {
+	date: string
+	totalChars: number
+	// Строки вставок, как lines у файлов и языков; в записях старых версий отсутствует
+	lines?: number
+	totalTime: number
+	idleTime?: number
+	byClassification: Record<Classification, { chars: number; count: number }>
+	churn?: ChurnStat
+	// Почасовая разбивка дня по часам на часах (0–23)
+	hours?: HourlyStat
+}
+
+// Проект: корень git-репозитория или папка рабочей области. Итоги за всё время
+// считаются по файлам проекта, по дням — в собственной dailyStats
+export interface ProjectStat {
+	id: string
+	name: string
+	root: string
+	kind: 'git' | 'workspace' | 'none'
+	dailyStats: Record<string, DailyStat>
+	lastActive?: number
+}
+
+// Время и символы на ветке репозитория
+export interface BranchStat {
+	// Корень репозитория (идентификатор проекта)
+	repo: string
+	branch: string
+	timeSeconds: number
+	chars: number
+	commits: number
+	firstSeen: number
+	lastActive: number
+}
+
+export interface CommitRecord {
+	id: string
+	repo: string
+	branch: string
+	message: string
+	timestamp: number
+	// Рабочее время и символы в репозитории с предыдущего коммита
+	seconds: number
+	chars: number
+	// Начало отсчёта: предыдущий коммит или первое появление репозитория
+	since: number
+}
+
+// Последний увиденный HEAD и работа, ещё не попавшая в коммит
+export interface RepoState {
+	head?: string
+	branch: string
+	seconds: number
+	chars: number
+	since: number
+}
+
+export interface GitStats {
+	branches: Record<string, BranchStat>
+	commits: CommitRecord[]
+	repos: Record<string, RepoState>
+}
+
+// Рабочий отрезок режима фокуса; засчитывается только активное время
+export interface FocusSessionRecord {
+	id: string
+	start: number
+	end: number
+	plannedSeconds: number
+	activeSeconds: number
+	// Отрезок доработан до конца, а не остановлен досрочно
+	completed: boolean
+}
+
+export interface HourlyStat {
+	time: number[]
+	chars: number[]
+}
+
+export interface Aggregate {
+	files: Record<string, FileStat>
+	languages: Record<string, LanguageStat>
+	lastUpdate: number
+	dailyStats: Record<string, DailyStat>
+	bulkChanges?: BulkChangeRecord[]
+	projects?: Record<string, ProjectStat>
+	git?: GitStats
+	focusSessions?: FocusSessionRecord[]
+	// Импортированные выгрузки по exportId — повторный импорт пропускается
+	imports?: Record<string, ImportRecord>
+	// Итоги, уже взятые из выгрузок другой установки, по её source: следующая
+	// выгрузка с той же машины добавляет только разницу с ними
+	importedTotals?: Record<string, ImportedTotals>
+	// Версия модели ключей dailyStats: отсутствует — даты UTC, 1 — локальные дни
+	dayModel?: number
+	// История языков и файлов по корзинам; ключ — historyKey(размер, начало)
+	history?: Record<string, HistoryBucket>
+}
+
+export interface ImportedTotals {
+	files: Record<string, FileStat>
+	languages: Record<string, LanguageStat>
+	dailyStats: Record<string, DailyStat>
+	// Дни проектов по идентификатору проекта
+	projectDays: Record<string, Record<string, DailyStat>>
+	branches: Record<string, BranchStat>
+	history: Record<string, HistoryBucket>
+}
+
+export interface ImportRecord {
+	source: string
+	exportedAt: number
+	importedAt: number
+	range?: { from: string; to: string }
+}
+
+// Сетка «день недели × час» (0 — воскресенье)
+export interface HourlyHeatmap {
+	time: number[][]
+	chars: number[][]
+	days: number
+}
+
+export interface TimeWindowStat {
+	seconds: number
+	chars: number
+	lines: number
+}
+
+export interface ExtraStats {
+	totalEdits: number
+	currentStreak: number
+	maxStreak: number
+	weekdayCounts: number[]
+}
+
+export interface SessionFileStat {
+	language: string
+	seconds: number
+	chars: number
+}
+
+// Непрерывный отрезок работы; сессии разделяются простоями
+export interface CodingSession {
+	id: string
+	start: number
+	end: number
+	workspace: string
+	activeSeconds: number
+	chars: number
+	byClassification: Partial<Record<Classification, number>>
+	files: Record<string, SessionFileStat>
+}
+
+// Сессии одного дня для ленты на панели
+export interface SessionDay {
+	date: string
+	start: number
+	sessions: CodingSession[]
+}
+
+// Время и символы языка или файла за период — по истории, где нет
+// строк и классификации ввода
+export interface PeriodLanguage {
+	language: string
+	seconds: number
+	chars: number
+}
+
+export interface PeriodFile extends PeriodLanguage {
+	file: string
+	folder: string
+	project?: string
+}
+
+// Период дней, ключи включительно
+export interface DayRange {
+	from: string
+	to: string
+}
+
+// Итоги за период по дневной статистике
+export interface PeriodSummary {
+	seconds: number
+	chars: number
+	// Оценка: примерно 1 строка на 50 символов, как в окнах времени
+	lines: number
+	// Дни, в которые был хотя бы один символ
+	activeDays: number
+	byClassification: Record<Classification, { chars: number; count: number }>
+}
+
+export interface SeriesPoint {
+	seconds: number
+	chars: number
+}
+
+export type BucketSize = 'day' | 'week' | 'month'
+
+// Время и символы по языкам и файлам за день, неделю (с понедельника) или
+// месяц. Старые дни сворачиваются в недели, старые недели — в месяцы
+export interface HistoryBucket {
+	size: BucketSize
+	// Ключ первого дня корзины
+	start: string
+	languages: Record<string, SeriesPoint>
+	files: Record<string, SeriesPoint>
+	// Только у дней: статистика дня по языку в проекте, ключ — languageDayKey.
+	// По ней панель фильтрует дни по языку; в недели и месяцы не сворачивается
+	days?: Record<string, DailyStat>
+}
+
+// Ряд языка по шагам графика; language '' — остальные языки вместе
+export interface LanguageTrend {
+	language: string
+	seconds: number[]
+	chars: number[]
+}
+
+export interface FileTrend extends SeriesPoint {
+	file: string
+	language: string
+	// Начало шага, в который у файла было больше всего времени
+	peak: string
+}
+
+// Ряды по языкам за период: шаг выбирается по длине периода и по тому,
+// насколько свёрнута история за эти дни
+export interface TrendData {
+	step: BucketSize
+	// Начала шагов, по одному на точку графика
+	starts: string[]
+	languages: LanguageTrend[]
+	files: FileTrend[]
+}
@@ -0,0 +1,12 @@
+// src/webview/api.ts
+// Отправка сообщений расширению
+import type { WebviewMessage } from '../protocol'
+
+// acquireVsCodeApi можно вызвать только один раз за жизнь страницы. API берётся
+// при первой отправке: модули панели загружаются и без webview, например в тестах
+let vscode: VsCodeApi | undefined
+
+export function post(message: WebviewMessage) {
+	if (!vscode) vscode = acquireVsCodeApi()
+	vscode.postMessage(message)
+}
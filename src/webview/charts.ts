@@ -0,0 +1,169 @@
+// src/webview/charts.ts
+// Графики Chart.js. Если библиотека не загрузилась или график не создался,
+// вместо холста показывается таблица с теми же данными
+import type { Chart as ChartInstance, ChartConfiguration, ChartType } from 'chart.js'
+import type { Aggregate, ExtraStats } from '../types'
+import { post } from './api.js'
+import { classifications, legendItem } from './classifications.js'
+import { byId } from './dom.js'
+import { selectedLanguage, toggleLanguage } from './filters.js'
+import { escapeHtml, formatNumber } from './format.js'
+
+export type Config = ChartConfiguration<ChartType, number[], string>
+
+const LANG_COLORS = ['#60a5fa', '#a78bfa', '#f472b6', '#fb923c', '#facc15', '#94a3b8']
+const WEEKDAY_LABELS = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс']
+
+let classChart: ChartInstance | null = null
+let langPie: ChartInstance | null = null
+let weeklyChart: ChartInstance | null = null
+
+export function drawChart(canvasId: string, previous: ChartInstance | null, config: Config): ChartInstance | null {
+	if (previous) previous.destroy()
+	const canvas = byId<HTMLCanvasElement>(canvasId)
+	const container = canvas.parentElement!
+	let fallback = container.querySelector<HTMLElement>('.chart-fallback')
+	try {
+		if (typeof Chart === 'undefined') throw new Error('Chart.js не загружен')
+		const chart = new Chart(canvas, config)
+		canvas.style.display = ''
+		if (fallback) fallback.remove()
+		return chart
+	} catch (err) {
+		post({ command: 'chartError', chart: canvasId, error: String(err) })
+		canvas.style.display = 'none'
+		if (!fallback) {
+			fallback = document.createElement('div')
+			fallback.className = 'chart-fallback'
+			container.appendChild(fallback)
+		}
+		fallback.innerHTML = chartTable(config.data)
+		return null
+	}
+}
+
+// По столбцу на набор данных: у рядов по языкам их несколько
+export function chartTable(data: Config['data']): string {
+	const head = data.datasets
+		.map(dataset => `<th>${escapeHtml(dataset.label || 'Значение')}</th>`)
+		.join('')
+	const rows = (data.labels || [])
+		.map(
+			(label, i) =>
+				`<tr><td>${escapeHtml(label)}</td>${data.datasets
+					.map(dataset => `<td>${formatNumber(dataset.data[i] || 0)}</td>`)
+					.join('')}</tr>`
+		)
+		.join('')
+	return `<table><thead><tr><th></th>${head}</tr></thead><tbody>${rows}</tbody></table>`
+}
+
+export function renderClassificationChart(store: Aggregate) {
+	const data: Record<string, number> = {}
+	for (const c of classifications) data[c.id] = 0
+	for (const l of Object.values(store.languages)) {
+		for (const c of classifications) data[c.id] += l.byClassification[c.id]?.chars || 0
+	}
+	const totalChars = classifications.reduce((a, c) => a + data[c.id], 0)
+
+	classChart = drawChart('classChart', classChart, {
+		type: 'doughnut',
+		data: {
+			labels: classifications.map(c => c.label),
+			datasets: [
+				{
+					data: classifications.map(c => data[c.id]),
+					backgroundColor: classifications.map(c => c.color),
+					borderWidth: 0,
+				},
+			],
+		},
+		options: { responsive: true, maintainAspectRatio: false, plugins: { legend: { display: false } } },
+	})
+
+	byId('classSummary').innerHTML = classifications
+		.map(c => legendItem(c.label, data[c.id], totalChars, c.color))
+		.join('')
+}
+
+export function renderLangPie(store: Aggregate) {
+	const langs = Object.values(store.languages)
+		.filter(l => l.chars > 0)
+		.sort((a, b) => b.chars - a.chars)
+	const topLangs = langs.slice(0, 5)
+	const otherChars = langs.slice(5).reduce((a, l) => a + l.chars, 0)
+
+	const chartData = topLangs.map(l => l.chars)
+	const chartLabels = topLangs.map(l => l.language)
+	if (otherChars > 0) {
+		chartData.push(otherChars)
+		chartLabels.push('Другие')
+	}
+
+	langPie = drawChart('langPie', langPie, {
+		type: 'pie',
+		data: {
+			labels: chartLabels,
+			datasets: [
+				{
+					data: chartData,
+					backgroundColor: LANG_COLORS.slice(0, chartData.length),
+					borderWidth: 0,
+				},
+			],
+		},
+		options: {
+			responsive: true,
+			maintainAspectRatio: false,
+			plugins: { legend: { display: false } },
+			// Щелчок по языку фильтрует панель; «Другие» — не язык
+			onClick: (_event, elements) => {
+				const index = elements[0]?.index
+				if (index !== undefined && index < topLangs.length) toggleLanguage(topLangs[index].language)
+			},
+		},
+	})
+
+	const totalChars = langs.reduce((a, l) => a + l.chars, 0)
+	let html = topLangs
+		.map((l, i) => {
+			const selected = l.language === selectedLanguage ? ' style="color: var(--accent);"' : ''
+			const attrs = ` data-language="${escapeHtml(l.language)}"${selected}`
+			return legendItem(l.language, l.chars, totalChars, LANG_COLORS[i], attrs)
+		})
+		.join('')
+	if (otherChars > 0) {
+		html += legendItem('Другие', otherChars, totalChars, LANG_COLORS[topLangs.length])
+	}
+	byId('langSummary').innerHTML = html
+}
+
+export function renderWeeklyActivity(extraStats: ExtraStats) {
+	// weekdayCounts начинается с воскресенья, график — с понедельника
+	const data = [...extraStats.weekdayCounts.slice(1), extraStats.weekdayCounts[0]]
+
+	weeklyChart = drawChart('weekDayChart', weeklyChart, {
+		type: 'bar',
+		data: {
+			labels: WEEKDAY_LABELS,
+			datasets: [
+				{
+					label: 'Активные дни',
+					data,
+					backgroundColor: 'var(--accent)',
+					borderColor: 'var(--accent)',
+					borderWidth: 1,
+				},
+			],
+		},
+		options: {
+			responsive: true,
+			maintainAspectRatio: false,
+			plugins: { legend: { display: false } },
+			scales: {
+				x: { grid: { display: false } },
+				y: { beginAtZero: true, ticks: { precision: 0 } },
+			},
+		},
+	})
+}
@@ -0,0 +1,36 @@
+// src/webview/classifications.ts
+// Категории классификации приходят из расширения: id, подпись и цвет
+import type { ClassificationInfo } from '../protocol'
+import { escapeHtml, formatNumber } from './format.js'
+
+export let classifications: ClassificationInfo[] = []
+
+export function setClassifications(list: ClassificationInfo[]) {
+	classifications = list
+}
+
+export function clsInfo(id: string): { label: string; color: string } {
+	return classifications.find(c => c.id === id) || { label: id, color: '#94a3b8' }
+}
+
+export function classificationHeaders(): string {
+	return classifications.map(c => `<th>${escapeHtml(c.label)}</th>`).join('')
+}
+
+// Строка легенды с полосой доли от total; attrs — атрибуты строки для переходов
+export function legendItem(
+	label: string,
+	chars: number,
+	total: number,
+	color: string,
+	attrs = ''
+): string {
+	const percent = total > 0 ? Math.round((chars / total) * 100) : 0
+	return `
+		<div class="legend-item"${attrs}>
+			<span><div class="color-box" style="background: ${color};"></div> ${escapeHtml(label)}</span>
+			<span>${formatNumber(chars)} (${percent}%)</span>
+		</div>
+		<div class="progress"><div class="progress-bar" style="width: ${percent}%; background: ${color};"></div></div>
+	`
+}
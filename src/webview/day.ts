@@ -0,0 +1,91 @@
+// src/webview/day.ts
+// Разбивка дня, выбранного в тепловой карте или в таблице по дням
+import type { DayDetails } from '../protocol'
+import { post } from './api.js'
+import { classifications, legendItem } from './classifications.js'
+import { byId } from './dom.js'
+import { escapeHtml, fileLink, formatDay, formatNumber, msToTime } from './format.js'
+
+// Открытый день; после обновления данных разбивка запрашивается заново
+let openDay: string | null = null
+
+export function initDay() {
+	byId('dayClose').onclick = () => {
+		openDay = null
+		byId('dayCard').style.display = 'none'
+	}
+}
+
+export function requestDay(date: string) {
+	openDay = date
+	post({ command: 'requestDay', date })
+}
+
+export function refreshDay() {
+	if (openDay) post({ command: 'requestDay', date: openDay })
+}
+
+export function renderDay(details: DayDetails) {
+	// Ответ на запрос дня, который уже закрыли или сменили
+	if (details.date !== openDay) return
+	const card = byId('dayCard')
+	const firstShow = card.style.display === 'none'
+	card.style.display = ''
+	byId('dayTitle').textContent = formatDay(details.date)
+
+	const stat = details.stat
+	let html = '<div class="small">В этот день активности не было</div>'
+	if (stat) {
+		const total = classifications.reduce((a, c) => a + (stat.byClassification[c.id]?.chars || 0), 0)
+		html = `
+			<div><strong class="stat">${msToTime(stat.totalTime)}</strong> · ${formatNumber(
+			stat.totalChars
+		)} символов · простой ${msToTime(stat.idleTime || 0)}</div>
+			${classifications
+				.map(c => legendItem(c.label, stat.byClassification[c.id]?.chars || 0, total, c.color))
+				.join('')}
+		`
+	}
+
+	if (details.files.length === 0 && details.languages.length === 0) {
+		// Дневная корзина истории уже свёрнута в неделю
+		if (stat) html += '<div class="small" style="margin-top: 8px;">Разбивки по файлам за этот день уже нет</div>'
+	} else {
+		html += `
+			<div class="small" style="margin-top: 8px;">Сессий за день: ${formatNumber(details.sessions)}</div>
+			<h3>Языки</h3>
+			<table class="daily-table">
+				<thead><tr><th>Язык</th><th>Время</th><th>Символы</th></tr></thead>
+				<tbody>
+					${details.languages
+						.map(
+							l => `<tr data-language="${escapeHtml(l.language)}">
+						<td class="lang-tag">${escapeHtml(l.language)}</td>
+						<td>${msToTime(l.seconds)}</td>
+						<td>${formatNumber(l.chars)}</td>
+					</tr>`
+						)
+						.join('')}
+				</tbody>
+			</table>
+			<h3>Файлы</h3>
+			<table class="daily-table">
+				<thead><tr><th>Файл</th><th>Язык</th><th>Время</th><th>Символы</th></tr></thead>
+				<tbody>
+					${details.files
+						.map(
+							f => `<tr>
+						<td>${fileLink(f.file)}</td>
+						<td>${escapeHtml(f.language)}</td>
+						<td>${msToTime(f.seconds)}</td>
+						<td>${formatNumber(f.chars)}</td>
+					</tr>`
+						)
+						.join('')}
+				</tbody>
+			</table>
+		`
+	}
+	byId('dayDetails').innerHTML = html
+	if (firstShow) card.scrollIntoView({ behavior: 'smooth', block: 'start' })
+}
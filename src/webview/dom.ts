@@ -0,0 +1,13 @@
+// src/webview/dom.ts
+// Элементы разметки из dashboard.ts. Разметка и сценарий поставляются вместе,
+// поэтому отсутствие элемента — ошибка сборки, а не данных
+
+export function byId<T extends HTMLElement = HTMLElement>(id: string): T {
+	const el = document.getElementById(id)
+	if (!el) throw new Error(`Нет элемента #${id}`)
+	return el as T
+}
+
+export function inputValue(id: string): string {
+	return byId<HTMLInputElement | HTMLSelectElement>(id).value
+}
@@ -0,0 +1,28 @@
+// src/webview/filters.ts
+// Фильтры проекта и языка. Выбор хранит расширение: панель передаёт его и
+// перерисовывается по ответу
+import { post } from './api.js'
+
+export let selectedProject = ''
+export let selectedLanguage = ''
+
+// Выбор, с которым расширение прислало данные
+export function setFilters(project: string, language: string) {
+	selectedProject = project
+	selectedLanguage = language
+}
+
+export function selectProject(id: string) {
+	selectedProject = id
+	post({ command: 'requestData', project: id })
+}
+
+export function selectLanguage(language: string) {
+	selectedLanguage = language
+	post({ command: 'requestData', language })
+}
+
+// Щелчок по выбранному языку снимает фильтр
+export function toggleLanguage(language: string) {
+	selectLanguage(language === selectedLanguage ? '' : language)
+}
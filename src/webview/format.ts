@@ -0,0 +1,73 @@
+// src/webview/format.ts
+// Форматирование чисел, дат и длительностей для панели. Модуль не трогает DOM
+
+export function msToTime(s: number): string {
+	const h = Math.floor(s / 3600)
+	const m = Math.floor((s % 3600) / 60)
+	const sec = Math.round(s % 60)
+	return h > 0 ? `${h}ч ${m}м` : m > 0 ? `${m}м ${sec}с` : `${sec}с`
+}
+
+export function formatNumber(n: number): string {
+	return n.toLocaleString('ru-RU')
+}
+
+// Ключи дней — локальные даты ГГГГ-ММ-ДД; new Date('ГГГГ-ММ-ДД') разобрал бы их как UTC
+export function formatDay(key: string): string {
+	const [y, m, d] = key.split('-').map(Number)
+	return new Date(y, m - 1, d).toLocaleDateString('ru-RU')
+}
+
+export function formatClock(ts: number): string {
+	return new Date(ts).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })
+}
+
+export function formatDateTime(ts: number): string {
+	return new Date(ts).toLocaleString('ru-RU')
+}
+
+function sign(n: number): string {
+	return n > 0 ? '+' : n < 0 ? '−' : ''
+}
+
+// Разница с прошлым значением со знаком, например «+1ч 5м»
+export function formatDiff(diff: number, format: (n: number) => string): string {
+	return sign(diff) + format(Math.abs(diff))
+}
+
+// Изменение относительно прошлого значения в процентах; от нуля — «—»
+export function formatChange(current: number, previous: number): string {
+	if (previous === 0) return current === 0 ? '0%' : '—'
+	const percent = Math.round(((current - previous) / previous) * 100)
+	return sign(percent) + Math.abs(percent) + '%'
+}
+
+// Разница долей в процентных пунктах
+export function formatPoints(diff: number): string {
+	const rounded = Math.round(diff * 10) / 10
+	return sign(rounded) + Math.abs(rounded).toFixed(1) + ' п.п.'
+}
+
+// Имя файла из ключа store.files: пути Windows и POSIX, строки URI
+export function fileName(file: string): string {
+	return file.split(/[\\/]/).pop() || file
+}
+
+// Имя файла, которое по щелчку открывает файл в редакторе
+export function fileLink(file: string): string {
+	return `<span class="link" data-file="${escapeHtml(file)}" title="${escapeHtml(file)}">${escapeHtml(
+		fileName(file)
+	)}</span>`
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	"'": '&#39;',
+}
+
+export function escapeHtml(s: string): string {
+	return s.replace(/[&<>"']/g, m => HTML_ESCAPES[m])
+}
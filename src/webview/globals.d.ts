@@ -0,0 +1,12 @@
+// src/webview/globals.d.ts
+// Глобальные имена страницы панели: API webview и Chart.js, который подключён
+// отдельным тегом script до модулей панели
+
+interface VsCodeApi {
+	postMessage(message: unknown): void
+}
+
+declare function acquireVsCodeApi(): VsCodeApi
+
+// Если файл Chart.js не загрузился, имени нет вовсе — проверяйте typeof Chart
+declare const Chart: typeof import('chart.js').Chart
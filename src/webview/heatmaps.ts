@@ -0,0 +1,76 @@
+// src/webview/heatmaps.ts
+// Тепловые карты: символы по дням за период и время по часам недели
+import type { HeatmapDay } from '../protocol'
+import type { HourlyHeatmap } from '../types'
+import { byId } from './dom.js'
+import { formatDay, formatNumber, msToTime } from './format.js'
+
+const WEEKDAY_LABELS = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс']
+// Строки сетки с понедельника; в данных 0 — воскресенье
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+export function renderHeatmap(heatmapData: HeatmapDay[]) {
+	const container = byId('githubHeatmap')
+	if (!heatmapData || heatmapData.length === 0) {
+		container.innerHTML = '<div class="small">Нет данных за выбранный период</div>'
+		return
+	}
+	// Столбцов столько же, сколько недель в периоде: 13 при 90 днях по умолчанию
+	container.style.gridTemplateColumns = `repeat(${Math.ceil(heatmapData.length / 7)}, 1fr)`
+	document.querySelectorAll('.heatmapDays').forEach(el => {
+		el.textContent = String(heatmapData.length)
+	})
+
+	const maxValue = Math.max(...heatmapData.map(d => d.value))
+	container.innerHTML = heatmapData
+		.map(day => {
+			let level = 0
+			if (day.value > 0) {
+				const intensity = day.value / maxValue
+				if (intensity < 0.25) level = 1
+				else if (intensity < 0.5) level = 2
+				else if (intensity < 0.75) level = 3
+				else level = 4
+			}
+			const title = `${formatDay(day.date)}: ${formatNumber(day.value)} символов`
+			return `<div class="heatmap-day heatmap-day-${level}" data-day="${day.date}" title="${title}"></div>`
+		})
+		.join('')
+}
+
+// Сетка 7×24: строки Пн…Вс, столбцы — часы; яркость по времени работы
+export function renderHourHeatmap(data: HourlyHeatmap) {
+	const container = byId('hourHeatmap')
+	const summary = byId('hourHeatmapSummary')
+	const max = Math.max(0, ...data.time.flat())
+	if (max === 0) {
+		container.innerHTML = '<div class="small">Нет почасовых данных</div>'
+		summary.textContent = ''
+		return
+	}
+
+	let html = '<div class="hour-row"><span class="hour-label"></span><div class="hour-scale">'
+	for (let h = 0; h < 24; h++) html += `<span>${h % 3 === 0 ? h : ''}</span>`
+	html += '</div></div>'
+
+	let best = { row: 0, hour: 0, value: 0 }
+	WEEKDAY_ORDER.forEach((weekday, row) => {
+		html += `<div class="hour-row"><span class="hour-label">${WEEKDAY_LABELS[row]}</span><div class="heatmap">`
+		for (let h = 0; h < 24; h++) {
+			const value = data.time[weekday][h]
+			const intensity = value / max
+			const level =
+				value <= 0 ? '' : intensity < 0.33 ? ' active' : intensity < 0.66 ? ' hot' : ' very-hot'
+			if (value > best.value) best = { row, hour: h, value }
+			const title = `${WEEKDAY_LABELS[row]}, ${h}:00–${h + 1}:00: ${msToTime(value)}, ${formatNumber(
+				data.chars[weekday][h]
+			)} символов`
+			html += `<div class="hour${level}" title="${title}"></div>`
+		}
+		html += '</div></div>'
+	})
+	container.innerHTML = html
+	summary.textContent = `Самый продуктивный час: ${WEEKDAY_LABELS[best.row]}, ${best.hour}:00–${
+		best.hour + 1
+	}:00 (${msToTime(best.value)} за ${data.days} дней)`
+}
@@ -0,0 +1,204 @@
+// src/webview/main.ts
+// Точка входа панели мониторинга: принимает данные от расширения и
+// перерисовывает карточки
+import type { DashboardPayload, HostMessage, ProjectSummary } from '../protocol'
+import type { Aggregate, ExtraStats, TimeWindowStat } from '../types'
+import { post } from './api.js'
+import { renderClassificationChart, renderLangPie, renderWeeklyActivity } from './charts.js'
+import { setClassifications } from './classifications.js'
+import { initDay, refreshDay, renderDay, requestDay } from './day.js'
+import { byId } from './dom.js'
+import { selectedLanguage, selectedProject, selectLanguage, selectProject, setFilters, toggleLanguage } from './filters.js'
+import { escapeHtml, fileLink, formatNumber, msToTime } from './format.js'
+import { renderHeatmap, renderHourHeatmap } from './heatmaps.js'
+import { initPeriod, renderPeriod } from './period.js'
+import { initSessions, renderSessions } from './sessions.js'
+import { initSnippets, renderSnippetHistory } from './snippets.js'
+import { renderBulkChanges, renderDailyStats, renderFocus, renderGit, renderLangTable } from './tables.js'
+import { initTrends, renderTrend } from './trends.js'
+
+const TIME_WINDOWS: [string, string][] = [
+	['last12h', 'Последние 12 часов'],
+	['today', 'Сегодня'],
+	['week', 'За неделю'],
+	['month', 'За месяц'],
+]
+
+const PROJECT_KINDS: Record<ProjectSummary['kind'], string> = { git: 'git', workspace: 'папка', none: '' }
+
+function renderAll(payload: DashboardPayload) {
+	const { store, extraStats } = payload
+	setClassifications(payload.classifications)
+	setFilters(payload.selectedProject, payload.selectedLanguage)
+	renderProjects(payload.projects)
+	renderLanguages(payload.languages)
+	renderGit(payload.git)
+	renderFocus(payload.focus)
+	renderTimeWindows(payload.timeWindows)
+	renderSession(store)
+	renderStreakInfo(extraStats)
+	renderTotalEditsInfo(extraStats)
+	renderPeriod(payload.period)
+	renderTrend(payload.trend)
+	renderDailyStats(payload.dailyStats)
+	renderHeatmap(payload.heatmapData)
+	renderHourHeatmap(payload.hourlyHeatmap)
+	renderSessions(payload.sessionDays)
+	renderSnippetHistory(payload.snippetHistory)
+	renderBulkChanges(payload.bulkChanges)
+	renderClassificationChart(store)
+	renderLangPie(store)
+	renderWeeklyActivity(extraStats)
+	renderTopFiles(store)
+	renderTopFolders(store)
+	renderLangTable(store.languages)
+	refreshDay()
+}
+
+function renderTimeWindows(tw: Record<string, TimeWindowStat>) {
+	byId('timeWindows').innerHTML = TIME_WINDOWS.map(([id, label]) => {
+		const it = tw[id]
+		return `<div><strong>${label}</strong>: ${msToTime(it.seconds)} — ${formatNumber(it.chars)} Символов</div>`
+	}).join('')
+}
+
+function renderSession(store: Aggregate) {
+	const totalTime = Object.values(store.files).reduce((a, f) => a + f.timeSeconds, 0)
+	const totalChars = Object.values(store.languages).reduce((a, l) => a + l.chars, 0)
+	const speed = totalTime > 0 ? Math.round((totalChars / totalTime) * 60) : 0
+	byId('sessionInfo').innerHTML = `
+		<div><strong class="stat">${msToTime(totalTime)}</strong> Общее время</div>
+		<div class="small">${formatNumber(speed)} Символов/мин</div>
+		<div class="small">Последнее обновление: ${new Date(store.lastUpdate).toLocaleTimeString('ru-RU')}</div>
+	`
+}
+
+function renderStreakInfo(extraStats: ExtraStats) {
+	byId('streakInfo').innerHTML = `
+		<div><strong class="stat">${formatNumber(extraStats.currentStreak)}</strong> Дней подряд</div>
+		<div class="small">Максимальная серия: ${formatNumber(extraStats.maxStreak)} дней</div>
+		<div class="small">Активные дни — это дни с хотя бы одним фрагментом кода.</div>
+	`
+}
+
+function renderTotalEditsInfo(extraStats: ExtraStats) {
+	byId('totalEditsInfo').innerHTML = `
+		<div><strong class="stat">${formatNumber(extraStats.totalEdits)}</strong> Общее количество изменений</div>
+		<div class="small">Каждое изменение — это отдельное событие ввода.</div>
+	`
+}
+
+function renderTopFiles(store: Aggregate) {
+	const files = Object.values(store.files)
+		.sort((a, b) => b.timeSeconds - a.timeSeconds)
+		.slice(0, 5)
+	byId('topFiles').innerHTML = files
+		.map(
+			f =>
+				`<div class="top-item">${fileLink(f.file)}<span>${msToTime(
+					Math.round(f.timeSeconds)
+				)}</span></div>`
+		)
+		.join('')
+}
+
+function renderTopFolders(store: Aggregate) {
+	const folders: Record<string, number> = {}
+	for (const f of Object.values(store.files)) {
+		folders[f.folder] = (folders[f.folder] || 0) + f.timeSeconds
+	}
+	const top = Object.entries(folders)
+		.sort((a, b) => b[1] - a[1])
+		.slice(0, 5)
+	byId('topFolders').innerHTML = top
+		.map(
+			([folder, seconds]) =>
+				`<div class="top-item"><span>${escapeHtml(folder)}</span><span>${msToTime(
+					Math.round(seconds)
+				)}</span></div>`
+		)
+		.join('')
+}
+
+function renderProjects(projects: ProjectSummary[]) {
+	byId('projectFilter').innerHTML =
+		'<option value="">Все проекты</option>' +
+		projects
+			.map(
+				p =>
+					`<option value="${escapeHtml(p.id)}" ${p.id === selectedProject ? 'selected' : ''}>${escapeHtml(
+						p.name
+					)}</option>`
+			)
+			.join('')
+
+	const el = byId('projectList')
+	if (projects.length === 0) {
+		el.innerHTML = '<div class="small">Нет данных</div>'
+		return
+	}
+	el.innerHTML = projects
+		.slice(0, 5)
+		.map(
+			p => `
+		<div class="top-item" style="cursor: pointer;${
+			p.id === selectedProject ? ' color: var(--accent);' : ''
+		}" data-project="${escapeHtml(p.id)}" title="${escapeHtml(p.root)}">
+			<span>${escapeHtml(p.name)} <span class="small">${PROJECT_KINDS[p.kind] || ''}</span></span>
+			<span>${msToTime(p.seconds)} · ${formatNumber(p.chars)} симв.</span>
+		</div>
+	`
+		)
+		.join('')
+	el.querySelectorAll<HTMLElement>('[data-project]').forEach(item => {
+		const id = item.dataset.project || ''
+		item.onclick = () => selectProject(id === selectedProject ? '' : id)
+	})
+}
+
+// Дни языка берутся из дневной истории: дни, свёрнутые в недели, в отбор не входят
+function renderLanguages(languages: string[]) {
+	byId('languageFilter').innerHTML =
+		'<option value="">Все языки</option>' +
+		languages
+			.map(
+				l =>
+					`<option value="${escapeHtml(l)}" ${l === selectedLanguage ? 'selected' : ''}>${escapeHtml(
+						l
+					)}</option>`
+			)
+			.join('')
+	byId('languageNote').textContent = selectedLanguage
+		? 'Статистика по дням, тепловые карты и окна времени — за дни, ещё не свёрнутые в недели'
+		: ''
+}
+
+byId('refresh').onclick = () => post({ command: 'requestData', project: selectedProject })
+byId<HTMLSelectElement>('projectFilter').onchange = e =>
+	selectProject((e.target as HTMLSelectElement).value)
+byId<HTMLSelectElement>('languageFilter').onchange = e =>
+	selectLanguage((e.target as HTMLSelectElement).value)
+
+// Переходы из карточек: data-file открывает файл в редакторе, data-language
+// фильтрует панель по языку, data-day показывает разбивку дня
+document.addEventListener('click', e => {
+	const target = (e.target as HTMLElement).closest<HTMLElement>('[data-file], [data-language], [data-day]')
+	if (!target) return
+	const { file, language, day } = target.dataset
+	if (file) post({ command: 'openFile', file })
+	else if (language) toggleLanguage(language)
+	else if (day) requestDay(day)
+})
+
+initPeriod()
+initTrends()
+initDay()
+initSessions()
+initSnippets()
+
+window.addEventListener('message', (e: MessageEvent<HostMessage>) => {
+	if (e.data.command === 'update') renderAll(e.data.payload)
+	else if (e.data.command === 'day') renderDay(e.data.payload)
+})
+
+post({ command: 'requestData' })
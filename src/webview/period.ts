@@ -0,0 +1,98 @@
+// src/webview/period.ts
+// Итоги за выбранный период и сравнение с предыдущим периодом той же длины.
+// Период хранит расширение: панель передаёт выбор и перерисовывается по ответу
+import type { PeriodData } from '../protocol'
+import type { Classification, DayRange, PeriodSummary } from '../types'
+import { post } from './api.js'
+import { classifications } from './classifications.js'
+import { byId } from './dom.js'
+import {
+	escapeHtml,
+	formatChange,
+	formatDay,
+	formatDiff,
+	formatNumber,
+	formatPoints,
+	msToTime,
+} from './format.js'
+
+interface Metric {
+	label: string
+	value: (summary: PeriodSummary) => number
+	format: (n: number) => string
+	// Доля в процентах: изменение в процентных пунктах и без оценки «лучше/хуже»
+	share?: boolean
+}
+
+export function initPeriod() {
+	const from = byId<HTMLInputElement>('periodFrom')
+	const to = byId<HTMLInputElement>('periodTo')
+	// Пока одна из дат не введена целиком, запрос не отправляется
+	const changeRange = () => {
+		if (from.value && to.value) {
+			post({ command: 'requestData', range: { from: from.value, to: to.value } })
+		}
+	}
+	from.onchange = changeRange
+	to.onchange = changeRange
+	byId<HTMLInputElement>('periodCompare').onchange = e =>
+		post({ command: 'requestData', compare: (e.target as HTMLInputElement).checked })
+	byId('periodReset').onclick = () => post({ command: 'requestData', range: null })
+}
+
+function formatRange(range: DayRange): string {
+	return range.from === range.to ? formatDay(range.from) : `${formatDay(range.from)} — ${formatDay(range.to)}`
+}
+
+// Доля категории среди классифицированных символов, как в таблице по дням
+function share(summary: PeriodSummary, id: Classification): number {
+	const total = classifications.reduce((a, c) => a + summary.byClassification[c.id].chars, 0)
+	return total > 0 ? (summary.byClassification[id].chars / total) * 100 : 0
+}
+
+function metrics(): Metric[] {
+	return [
+		{ label: 'Время', value: s => s.seconds, format: msToTime },
+		{ label: 'Символы', value: s => s.chars, format: formatNumber },
+		{ label: 'Активные дни', value: s => s.activeDays, format: formatNumber },
+		...classifications.map(c => ({
+			label: `Доля: ${c.label}`,
+			value: (s: PeriodSummary) => share(s, c.id),
+			format: (n: number) => n.toFixed(1) + '%',
+			share: true,
+		})),
+	]
+}
+
+function changeCell(metric: Metric, current: number, previous: number): string {
+	if (metric.share) return `<td>${formatPoints(current - previous)}</td>`
+	const diff = current - previous
+	const cls = diff > 0 ? 'delta-up' : diff < 0 ? 'delta-down' : ''
+	return `<td class="${cls}">${formatChange(current, previous)} <span class="small">(${formatDiff(
+		diff,
+		metric.format
+	)})</span></td>`
+}
+
+export function renderPeriod(period: PeriodData) {
+	byId<HTMLInputElement>('periodFrom').value = period.range.from
+	byId<HTMLInputElement>('periodTo').value = period.range.to
+	byId<HTMLInputElement>('periodCompare').checked = period.compare
+	byId('periodReset').style.display = period.custom ? '' : 'none'
+	byId('dailyStatsRange').textContent = formatRange(period.range)
+
+	const { current, previous } = period
+	byId('periodHead').innerHTML =
+		`<th>Показатель</th><th>${formatRange(period.range)}</th>` +
+		(previous ? `<th>${formatRange(previous.range)}</th><th>Изменение</th>` : '')
+	byId('periodBody').innerHTML = metrics()
+		.map(metric => {
+			const value = metric.value(current)
+			const cells = previous
+				? `<td>${metric.format(metric.value(previous.summary))}</td>` +
+				  changeCell(metric, value, metric.value(previous.summary))
+				: ''
+			return `<tr><td>${escapeHtml(metric.label)}</td><td>${metric.format(value)}</td>${cells}</tr>`
+		})
+		.join('')
+}
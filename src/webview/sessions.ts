@@ -0,0 +1,120 @@
+// src/webview/sessions.ts
+// Лента сессий за день и подробности выбранной сессии
+import type { CodingSession, SessionDay } from '../types'
+import { classifications, legendItem } from './classifications.js'
+import { byId } from './dom.js'
+import { escapeHtml, fileLink, formatClock, formatDay, formatNumber, msToTime } from './format.js'
+
+const DAY_MS = 24 * 3600 * 1000
+
+let sessionDays: SessionDay[] = []
+let selectedDay: string | null = null
+let selectedId: string | null = null
+
+export function initSessions() {
+	byId<HTMLSelectElement>('sessionDay').onchange = e => {
+		selectedDay = (e.target as HTMLSelectElement).value
+		selectedId = null
+		renderSessionDay()
+	}
+}
+
+export function renderSessions(days: SessionDay[]) {
+	sessionDays = days || []
+	const select = byId<HTMLSelectElement>('sessionDay')
+	if (sessionDays.length === 0) {
+		select.innerHTML = ''
+		select.style.display = 'none'
+		byId('sessionTimeline').innerHTML = '<div class="small">Нет сессий за последние 30 дней</div>'
+		byId('sessionList').innerHTML = ''
+		byId('sessionDetails').innerHTML = ''
+		return
+	}
+	select.style.display = ''
+	if (!sessionDays.some(d => d.date === selectedDay)) {
+		selectedDay = sessionDays[0].date
+		selectedId = null
+	}
+	select.innerHTML = sessionDays
+		.map(
+			d =>
+				`<option value="${d.date}" ${d.date === selectedDay ? 'selected' : ''}>${formatDay(
+					d.date
+				)} — сессий: ${d.sessions.length}</option>`
+		)
+		.join('')
+	renderSessionDay()
+}
+
+function renderSessionDay() {
+	const day = sessionDays.find(d => d.date === selectedDay)
+	if (!day) return
+
+	// Полоса суток: каждая сессия — блок от начала до конца
+	const blocks = day.sessions
+		.map(s => {
+			const left = Math.max(0, ((s.start - day.start) / DAY_MS) * 100)
+			const width = Math.min(100 - left, ((s.end - s.start) / DAY_MS) * 100)
+			const selected = s.id === selectedId ? ' selected' : ''
+			return `<div class="timeline-block${selected}" data-session="${s.id}" style="left: ${left}%; width: ${width}%" title="${formatClock(
+				s.start
+			)}–${formatClock(s.end)}"></div>`
+		})
+		.join('')
+	const scale = [0, 6, 12, 18, 24]
+		.map(h => `<span>${formatClock(day.start + h * 3600 * 1000)}</span>`)
+		.join('')
+	byId('sessionTimeline').innerHTML = `<div class="timeline">${blocks}</div><div class="timeline-scale">${scale}</div>`
+
+	byId('sessionList').innerHTML = day.sessions
+		.map(
+			s => `
+		<tr class="session-row${s.id === selectedId ? ' selected' : ''}" data-session="${s.id}">
+			<td>${formatClock(s.start)}–${formatClock(s.end)}</td>
+			<td>${msToTime(s.activeSeconds)}</td>
+			<td>${escapeHtml(s.workspace)}</td>
+			<td>${Object.keys(s.files).length}</td>
+			<td>${formatNumber(s.chars)}</td>
+		</tr>
+	`
+		)
+		.join('')
+
+	document.querySelectorAll<HTMLElement>('[data-session]').forEach(el => {
+		el.onclick = () => {
+			selectedId = el.dataset.session === selectedId ? null : el.dataset.session || null
+			renderSessionDay()
+		}
+	})
+
+	renderSessionDetails(day.sessions.find(s => s.id === selectedId))
+}
+
+function renderSessionDetails(session: CodingSession | undefined) {
+	const el = byId('sessionDetails')
+	if (!session) {
+		el.innerHTML = '<div class="small" style="margin-top: 8px;">Выберите сессию, чтобы увидеть подробности</div>'
+		return
+	}
+	const files = Object.entries(session.files).sort((a, b) => b[1].seconds - a[1].seconds)
+	const cls = session.byClassification
+	el.innerHTML = `
+		<h3>${formatClock(session.start)}–${formatClock(session.end)} · ${msToTime(session.activeSeconds)}</h3>
+		${classifications.map(c => legendItem(c.label, cls[c.id] || 0, session.chars, c.color)).join('')}
+		<table class="daily-table" style="margin-top: 8px;">
+			<thead><tr><th>Файл</th><th>Язык</th><th>Время</th><th>Символы</th></tr></thead>
+			<tbody>
+				${files
+					.map(
+						([file, f]) => `<tr>
+					<td>${fileLink(file)}</td>
+					<td>${escapeHtml(f.language)}</td>
+					<td>${msToTime(f.seconds)}</td>
+					<td>${formatNumber(f.chars)}</td>
+				</tr>`
+					)
+					.join('')}
+			</tbody>
+		</table>
+	`
+}
@@ -0,0 +1,93 @@
+// src/webview/snippets.ts
+// История фрагментов с фильтрами по тексту, типу, языку, файлу и датам
+import type { SnippetHistory } from '../protocol'
+import { post } from './api.js'
+import { clsInfo } from './classifications.js'
+import { byId, inputValue } from './dom.js'
+import { escapeHtml, fileName, formatDateTime, formatNumber } from './format.js'
+
+const SNIPPET_LIMIT = 100
+
+let history: SnippetHistory = { enabled: false, snippets: [] }
+
+export function initSnippets() {
+	for (const id of ['snippetSearch', 'snippetFile', 'snippetFrom', 'snippetTo']) {
+		byId(id).oninput = () => renderSnippetList()
+	}
+	for (const id of ['snippetCls', 'snippetLang']) {
+		byId(id).onchange = () => renderSnippetList()
+	}
+}
+
+export function renderSnippetHistory(snippetHistory: SnippetHistory) {
+	history = snippetHistory || { enabled: false, snippets: [] }
+	const langSelect = byId<HTMLSelectElement>('snippetLang')
+	const current = langSelect.value
+	const langs = [...new Set(history.snippets.map(s => s.language))].sort()
+	langSelect.innerHTML =
+		'<option value="">Все языки</option>' +
+		langs
+			.map(
+				l => `<option value="${escapeHtml(l)}" ${l === current ? 'selected' : ''}>${escapeHtml(l)}</option>`
+			)
+			.join('')
+	renderSnippetList()
+}
+
+function renderSnippetList() {
+	const list = byId('snippetList')
+	const count = byId('snippetCount')
+	if (!history.enabled && history.snippets.length === 0) {
+		count.textContent =
+			'Журнал фрагментов выключен. Включите настройку codingTracker.snippets.enabled, чтобы сохранять вставки и ИИ-код.'
+		list.innerHTML = ''
+		return
+	}
+
+	const search = inputValue('snippetSearch').toLowerCase()
+	const cls = inputValue('snippetCls')
+	const lang = inputValue('snippetLang')
+	const file = inputValue('snippetFile').toLowerCase()
+	const from = inputValue('snippetFrom')
+	const to = inputValue('snippetTo')
+
+	const filtered = history.snippets.filter(
+		s =>
+			(!cls || s.classification === cls) &&
+			(!lang || s.language === lang) &&
+			(!file || s.file.toLowerCase().includes(file)) &&
+			(!from || s.day >= from) &&
+			(!to || s.day <= to) &&
+			(!search || s.text.toLowerCase().includes(search))
+	)
+
+	count.textContent =
+		filtered.length > SNIPPET_LIMIT
+			? `Показано ${SNIPPET_LIMIT} из ${formatNumber(filtered.length)}`
+			: `Найдено: ${formatNumber(filtered.length)}`
+
+	list.innerHTML = filtered
+		.slice(0, SNIPPET_LIMIT)
+		.map(
+			s => `
+		<details class="snippet">
+			<summary>
+				<span class="badge" style="background: ${clsInfo(s.classification).color};">${escapeHtml(
+				clsInfo(s.classification).label
+			)}</span>
+				<span title="${escapeHtml(s.file)}">${escapeHtml(fileName(s.file))}:${(s.line || 0) + 1}</span>
+				<span class="small">${escapeHtml(s.language)} · ${formatNumber(s.chars)} симв. · ${formatDateTime(
+				s.timestamp
+			)}</span>
+			</summary>
+			<pre>${escapeHtml(s.text)}${s.truncated ? '\n…' : ''}</pre>
+			<button data-snippet="${s.id}">Открыть в редакторе</button>
+		</details>
+	`
+		)
+		.join('')
+
+	list.querySelectorAll<HTMLElement>('[data-snippet]').forEach(el => {
+		el.onclick = () => post({ command: 'openSnippet', id: el.dataset.snippet || '' })
+	})
+}
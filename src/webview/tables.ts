@@ -0,0 +1,187 @@
+// src/webview/tables.ts
+// Таблицы панели: дни, языки, массовые изменения, ветки и коммиты, отрезки фокуса
+import type { FocusData, GitData } from '../protocol'
+import type { BulkChangeRecord, ChurnStat, DailyStat, LanguageStat } from '../types'
+import { classificationHeaders, classifications, clsInfo } from './classifications.js'
+import { byId } from './dom.js'
+import { escapeHtml, fileLink, formatDateTime, formatDay, formatNumber, msToTime } from './format.js'
+
+// Удаления и баланс строк; у записей старых версий churn нет
+const CHURN_HEADERS = '<th>Удалено</th><th>Строки +/−</th><th>Отмена/повтор</th>'
+
+function churnCells(churn: ChurnStat | undefined): string {
+	if (!churn) return '<td>—</td><td>—</td><td>—</td>'
+	const addedLines = churn.addedLines || 0
+	const net = addedLines - churn.removedLines
+	return `
+		<td>${formatNumber(churn.removedChars)}</td>
+		<td>+${formatNumber(addedLines)} / −${formatNumber(churn.removedLines)} (${
+		net >= 0 ? '+' : '−'
+	}${formatNumber(Math.abs(net))})</td>
+		<td title="Добавлено ${formatNumber(churn.undoRedo.addedChars)}, удалено ${formatNumber(
+		churn.undoRedo.removedChars
+	)} символов">${formatNumber(churn.undoRedo.count)}</td>`
+}
+
+export function emptyRow(columns: number, text: string): string {
+	return `<tr><td colspan="${columns}" style="text-align: center;">${text}</td></tr>`
+}
+
+export function renderDailyStats(dailyStats: DailyStat[]) {
+	byId('dailyStatsHead').innerHTML =
+		'<th>Дата</th><th>Всего символов</th>' +
+		CHURN_HEADERS +
+		'<th>Время</th><th>Простой</th>' +
+		classificationHeaders()
+	const tbody = byId('dailyStatsBody')
+	if (!dailyStats || dailyStats.length === 0) {
+		tbody.innerHTML = emptyRow(7 + classifications.length, 'Нет данных')
+		return
+	}
+
+	tbody.innerHTML = dailyStats
+		.map(day => {
+			const totalClassification = classifications.reduce(
+				(a, c) => a + (day.byClassification[c.id]?.chars || 0),
+				0
+			)
+			const cells = classifications
+				.map(c => {
+					const chars = day.byClassification[c.id]?.chars || 0
+					const percent =
+						totalClassification > 0 ? ((chars / totalClassification) * 100).toFixed(1) : '0'
+					return `
+				<td>
+					${formatNumber(chars)} (${percent}%)
+					<div class="classification-bar">
+						<div style="width: ${percent}%; background: ${c.color};"></div>
+					</div>
+				</td>`
+				})
+				.join('')
+			return `
+			<tr data-day="${day.date}">
+				<td>${formatDay(day.date)}</td>
+				<td>${formatNumber(day.totalChars)}</td>${churnCells(day.churn)}
+				<td>${msToTime(day.totalTime)}</td>
+				<td>${msToTime(day.idleTime || 0)}</td>${cells}
+			</tr>
+		`
+		})
+		.join('')
+}
+
+export function renderLangTable(langs: Record<string, LanguageStat>) {
+	byId('langTableHead').innerHTML =
+		'<th>Язык</th><th>Символы</th>' + CHURN_HEADERS + '<th>Время</th>' + classificationHeaders()
+	const tbody = byId('langTable').querySelector('tbody')!
+	tbody.innerHTML = Object.values(langs)
+		.sort((a, b) => b.chars - a.chars)
+		.map(
+			l => `
+		<tr data-language="${escapeHtml(l.language)}">
+			<td class="lang-tag">${escapeHtml(l.language)}</td>
+			<td>${formatNumber(l.chars)}</td>${churnCells(l.churn)}
+			<td>${msToTime(l.timeSeconds)}</td>
+			${classifications.map(c => `<td>${formatNumber(l.byClassification[c.id]?.chars || 0)}</td>`).join('')}
+		</tr>
+	`
+		)
+		.join('')
+}
+
+export function renderBulkChanges(bulkChanges: BulkChangeRecord[]) {
+	const tbody = byId('bulkList')
+	if (!bulkChanges || bulkChanges.length === 0) {
+		tbody.innerHTML = emptyRow(6, 'Массовых изменений не было')
+		return
+	}
+	tbody.innerHTML = bulkChanges
+		.map(
+			b => `
+		<tr>
+			<td>${formatDateTime(b.timestamp)}</td>
+			<td>${fileLink(b.file)}</td>
+			<td>${escapeHtml(b.language)}</td>
+			<td>${formatNumber(b.chars)}</td>
+			<td>${formatNumber(b.lines)}</td>
+			<td><span class="badge" style="background: ${clsInfo(b.origin).color};">${escapeHtml(
+				clsInfo(b.origin).label
+			)}</span></td>
+		</tr>
+	`
+		)
+		.join('')
+}
+
+export function renderGit(git: GitData) {
+	byId('branchList').innerHTML =
+		git.branches.length === 0
+			? emptyRow(6, 'Нет данных о ветках: работайте в git-репозитории')
+			: git.branches
+					.map(
+						b => `
+		<tr>
+			<td title="${escapeHtml(b.repo)}">${escapeHtml(b.repoName)}</td>
+			<td>${b.current ? '<strong>' + escapeHtml(b.branch) + '</strong>' : escapeHtml(b.branch)}</td>
+			<td>${msToTime(b.timeSeconds)}</td>
+			<td>${formatNumber(b.chars)}</td>
+			<td>${formatNumber(b.commits)}</td>
+			<td>${formatDateTime(b.lastActive)}</td>
+		</tr>
+	`
+					)
+					.join('')
+
+	byId('commitList').innerHTML =
+		git.commits.length === 0
+			? emptyRow(6, 'Коммитов пока не было')
+			: git.commits
+					.map(
+						c => `
+		<tr>
+			<td>${formatDateTime(c.timestamp)}</td>
+			<td title="${escapeHtml(c.repo)}">${escapeHtml(c.repoName)}</td>
+			<td>${escapeHtml(c.branch)}</td>
+			<td title="${c.id}"><code>${c.id.slice(0, 7)}</code> ${escapeHtml(c.message)}</td>
+			<td>${msToTime(c.seconds)} <span class="small">(${msToTime(
+							Math.max(0, (c.timestamp - c.since) / 1000)
+						)})</span></td>
+			<td>${formatNumber(c.chars)}</td>
+		</tr>
+	`
+					)
+					.join('')
+}
+
+export function renderFocus(focus: FocusData) {
+	const active = focus.active
+		? `<div><strong>${escapeHtml(focus.active.phase)}</strong>: осталось ${msToTime(
+				Math.max(0, focus.active.remaining)
+		  )}, завершено отрезков: ${focus.active.cycles}</div>`
+		: ''
+	byId('focusSummary').innerHTML = `
+		${active}
+		<div>Сегодня: <strong class="stat">${formatNumber(focus.today.completed)}</strong> отрезков, ${msToTime(
+		focus.today.seconds
+	)}</div>
+		<div class="small">С начала недели: ${formatNumber(focus.week.completed)} отрезков, ${msToTime(
+		focus.week.seconds
+	)}</div>
+	`
+	byId('focusList').innerHTML =
+		focus.recent.length === 0
+			? emptyRow(4, 'Отрезков фокуса пока не было')
+			: focus.recent
+					.map(
+						f => `
+		<tr>
+			<td>${formatDateTime(f.start)}</td>
+			<td>${msToTime(f.activeSeconds)}</td>
+			<td>${msToTime(f.plannedSeconds)}</td>
+			<td>${f.completed ? 'Завершён' : 'Прерван'}</td>
+		</tr>
+	`
+					)
+					.join('')
+}
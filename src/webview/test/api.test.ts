@@ -0,0 +1,33 @@
+// src/webview/test/api.test.ts
+import * as assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { WebviewMessage } from '../../protocol'
+
+const sent: WebviewMessage[] = []
+let acquired = 0
+globalThis.acquireVsCodeApi = () => {
+	acquired++
+	return { postMessage: (message: WebviewMessage) => sent.push(message) }
+}
+
+describe('post', () => {
+	it('не берёт API при загрузке модуля', async () => {
+		await import('../api.js')
+		await import('../filters.js')
+		assert.equal(acquired, 0)
+	})
+
+	it('берёт API один раз и отправляет сообщения по порядку', async () => {
+		const { post } = await import('../api.js')
+		const { toggleLanguage } = await import('../filters.js')
+		post({ command: 'requestDay', date: '2026-10-19' })
+		toggleLanguage('typescript')
+		toggleLanguage('typescript')
+		assert.equal(acquired, 1)
+		assert.deepEqual(sent, [
+			{ command: 'requestDay', date: '2026-10-19' },
+			{ command: 'requestData', language: 'typescript' },
+			{ command: 'requestData', language: '' },
+		])
+	})
+})
@@ -0,0 +1,69 @@
+// src/webview/test/format.test.ts
+import * as assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { chartTable } from '../charts.js'
+import {
+	escapeHtml,
+	fileName,
+	formatChange,
+	formatDiff,
+	formatPoints,
+	msToTime,
+} from '../format.js'
+
+describe('msToTime', () => {
+	it('показывает часы и минуты, минуты и секунды или только секунды', () => {
+		assert.equal(msToTime(3 * 3600 + 5 * 60 + 7), '3ч 5м')
+		assert.equal(msToTime(65), '1м 5с')
+		assert.equal(msToTime(42), '42с')
+	})
+})
+
+describe('formatChange', () => {
+	it('считает процент от прошлого значения со знаком', () => {
+		assert.equal(formatChange(150, 100), '+50%')
+		assert.equal(formatChange(50, 100), '−50%')
+	})
+
+	it('от нуля процента нет', () => {
+		assert.equal(formatChange(0, 0), '0%')
+		assert.equal(formatChange(10, 0), '—')
+	})
+})
+
+describe('formatDiff и formatPoints', () => {
+	it('ставят знак перед модулем разницы', () => {
+		assert.equal(formatDiff(-65, msToTime), '−1м 5с')
+		assert.equal(formatPoints(2.04), '+2.0 п.п.')
+		assert.equal(formatPoints(0), '0.0 п.п.')
+	})
+})
+
+describe('fileName', () => {
+	it('берёт имя из путей POSIX, Windows и URI', () => {
+		assert.equal(fileName('/home/user/src/a.ts'), 'a.ts')
+		assert.equal(fileName('C:\\src\\b.py'), 'b.py')
+		assert.equal(fileName('vscode-remote://ssh/src/c.go'), 'c.go')
+	})
+})
+
+describe('escapeHtml', () => {
+	it('экранирует разметку и кавычки', () => {
+		assert.equal(escapeHtml(`<a href="x">'&'</a>`), '&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;')
+	})
+})
+
+describe('chartTable', () => {
+	it('строит таблицу по столбцу на набор данных и экранирует подписи', () => {
+		const html = chartTable({
+			labels: ['<пн>', 'вт'],
+			datasets: [{ label: 'ts', data: [1, 2] }, { data: [3] }],
+		})
+		assert.equal(
+			html,
+			'<table><thead><tr><th></th><th>ts</th><th>Значение</th></tr></thead><tbody>' +
+				'<tr><td>&lt;пн&gt;</td><td>1</td><td>3</td></tr>' +
+				'<tr><td>вт</td><td>2</td><td>0</td></tr></tbody></table>'
+		)
+	})
+})
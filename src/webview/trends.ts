@@ -0,0 +1,118 @@
+// src/webview/trends.ts
+// Время и символы по языкам за выбранный период: накопленные области или
+// линии по дням, неделям или месяцам, и самые активные файлы периода
+import type { Chart as ChartInstance } from 'chart.js'
+import type { BucketSize, LanguageTrend, TrendData } from '../types'
+import { drawChart } from './charts.js'
+import { byId, inputValue } from './dom.js'
+import { escapeHtml, fileLink, formatDay, formatNumber, msToTime } from './format.js'
+import { emptyRow } from './tables.js'
+
+const TREND_COLORS = ['#60a5fa', '#a78bfa', '#f472b6', '#fb923c', '#facc15', '#34d399', '#22d3ee']
+const OTHER_COLOR = '#94a3b8'
+
+const STEP_LABELS: Record<BucketSize, string> = {
+	day: 'по дням',
+	week: 'по неделям',
+	month: 'по месяцам',
+}
+
+let trendChart: ChartInstance | null = null
+let trend: TrendData | undefined
+
+export function initTrends() {
+	for (const id of ['trendMetric', 'trendMode']) {
+		byId(id).onchange = () => drawTrend()
+	}
+}
+
+export function renderTrend(data: TrendData) {
+	trend = data
+	byId('trendStep').textContent = STEP_LABELS[data.step]
+	drawTrend()
+	renderTrendFiles(data)
+}
+
+function stepLabel(step: BucketSize, start: string): string {
+	if (step === 'day') return formatDay(start)
+	if (step === 'week') return `неделя с ${formatDay(start)}`
+	const [y, m] = start.split('-').map(Number)
+	return new Date(y, m - 1, 1).toLocaleDateString('ru-RU', { month: 'long', year: 'numeric' })
+}
+
+function languageLabel(series: LanguageTrend): string {
+	return series.language || 'Другие'
+}
+
+// Время на графике — в минутах: шкала и таблица без графика остаются читаемыми
+function drawTrend() {
+	if (!trend) return
+	const chars = inputValue('trendMetric') === 'chars'
+	const stacked = inputValue('trendMode') !== 'lines'
+	byId('trendNote').textContent =
+		trend.languages.length === 0 ? 'Нет данных за выбранный период' : ''
+
+	trendChart = drawChart('trendChart', trendChart, {
+		type: 'line',
+		data: {
+			labels: trend.starts.map(start => stepLabel(trend!.step, start)),
+			datasets: trend.languages.map((series, i) => {
+				const color = series.language ? TREND_COLORS[i % TREND_COLORS.length] : OTHER_COLOR
+				return {
+					label: languageLabel(series),
+					data: chars ? series.chars : series.seconds.map(s => Math.round(s / 6) / 10),
+					borderColor: color,
+					backgroundColor: color + '66',
+					fill: stacked ? (i === 0 ? 'origin' : '-1') : false,
+					tension: 0.3,
+					pointRadius: trend!.starts.length > 60 ? 0 : 2,
+				}
+			}),
+		},
+		options: {
+			responsive: true,
+			maintainAspectRatio: false,
+			interaction: { mode: 'index', intersect: false },
+			plugins: {
+				legend: { labels: { color: '#cbd5e1', boxWidth: 12 } },
+				tooltip: {
+					callbacks: {
+						label: item => {
+							const value = item.parsed.y || 0
+							return `${item.dataset.label}: ${chars ? formatNumber(value) : msToTime(value * 60)}`
+						},
+					},
+				},
+			},
+			scales: {
+				x: { grid: { display: false } },
+				y: {
+					stacked,
+					beginAtZero: true,
+					title: { display: true, text: chars ? 'Символы' : 'Минуты' },
+				},
+			},
+		},
+	})
+}
+
+function renderTrendFiles(data: TrendData) {
+	const tbody = byId('trendFiles')
+	if (data.files.length === 0) {
+		tbody.innerHTML = emptyRow(5, 'Нет данных')
+		return
+	}
+	tbody.innerHTML = data.files
+		.map(
+			f => `
+		<tr>
+			<td>${fileLink(f.file)}</td>
+			<td data-language="${escapeHtml(f.language)}">${escapeHtml(f.language)}</td>
+			<td>${msToTime(Math.round(f.seconds))}</td>
+			<td>${formatNumber(f.chars)}</td>
+			<td>${stepLabel(data.step, f.peak)}</td>
+		</tr>
+	`
+		)
+		.join('')
+}